@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { convertBatch, MAX_BATCH_URLS, mergeWithTableOfContents, zipDocuments } from '@/lib/batch';
+import { withBrowser } from '@/lib/browser';
+import { readConvertOptions } from '@/lib/convert';
+import { resolveTheme, validateThemeOptions } from '@/lib/themes';
+import { isValidTwitterUrl } from '@/lib/urls';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { urls, output = 'pdf' } = body;
+
+    if (!Array.isArray(urls) || urls.length === 0) {
+      return NextResponse.json({ error: 'urls must be a non-empty array' }, { status: 400 });
+    }
+
+    if (urls.length > MAX_BATCH_URLS) {
+      return NextResponse.json(
+        { error: `Too many URLs. A batch can contain at most ${MAX_BATCH_URLS}.` },
+        { status: 400 }
+      );
+    }
+
+    if (output !== 'pdf' && output !== 'zip') {
+      return NextResponse.json({ error: 'output must be "pdf" or "zip"' }, { status: 400 });
+    }
+
+    const invalidUrls = urls.filter((url: unknown) => typeof url !== 'string' || !isValidTwitterUrl(url));
+    if (invalidUrls.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid Twitter/X URLs in batch. Please provide valid tweet or article URLs.', invalidUrls },
+        { status: 400 }
+      );
+    }
+
+    const themeError = validateThemeOptions(body);
+    if (themeError) {
+      return NextResponse.json({ error: themeError }, { status: 400 });
+    }
+
+    const options = readConvertOptions(body);
+    const result = await withBrowser(async browser => {
+      const converted = await convertBatch(urls, options, browser);
+      if (converted.documents.length === 0) {
+        return { converted, file: null };
+      }
+
+      const file = output === 'zip'
+        ? await zipDocuments(converted)
+        : await mergeWithTableOfContents(urls, converted, browser, resolveTheme(options.theme));
+      return { converted, file };
+    });
+
+    if (!result.file) {
+      return NextResponse.json(
+        { error: 'None of the URLs could be converted.', failures: result.converted.failures },
+        { status: 400 }
+      );
+    }
+
+    const fileName = `batch-${new Date().toISOString().slice(0, 10)}.${output}`;
+    const extractors = Array.from(new Set(result.converted.documents.flatMap(doc => (doc.extractor ? [doc.extractor] : []))));
+    const sourceMethods = Array.from(new Set(result.converted.documents.map(doc => doc.sourceMethod)));
+
+    return new NextResponse(new Uint8Array(result.file), {
+      status: 200,
+      headers: {
+        'Content-Type': output === 'zip' ? 'application/zip' : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Batch-Failed': String(result.converted.failures.length),
+        'X-Failed-Images': String(result.converted.documents.reduce((total, doc) => total + doc.failedImages.length, 0)),
+        ...(extractors.length > 0 && { 'X-Extractor': extractors.join(', ') }),
+        'X-Source-Method': sourceMethods.join(', '),
+      },
+    });
+  } catch (error) {
+    console.error('Batch conversion error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to convert batch: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { convertBatch, MAX_BATCH_URLS, mergeWithTableOfContents, zipDocuments } from '@/lib/batch';
+import { withBrowser } from '@/lib/browser';
+import { collectionFileId, collectTweetUrls, DEFAULT_COLLECTION_LIMIT } from '@/lib/collections';
+import { ConversionError, readConvertOptions } from '@/lib/convert';
+import { resolveTheme, validateThemeOptions } from '@/lib/themes';
+import { parseCollectionUrl } from '@/lib/urls';
+
+// Exports the tweets in your bookmarks, a user's likes or a List, either
+// merged into one PDF with a contents page or as a zip of PDFs, like /api/batch.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, limit = DEFAULT_COLLECTION_LIMIT, output = 'pdf' } = body;
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const collection = typeof url === 'string' ? parseCollectionUrl(url) : null;
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Invalid collection URL. Use https://x.com/i/bookmarks, https://x.com/<handle>/likes or https://x.com/i/lists/<id>.' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_URLS) {
+      return NextResponse.json(
+        { error: `Invalid limit. Use a whole number from 1 to ${MAX_BATCH_URLS}.` },
+        { status: 400 }
+      );
+    }
+
+    if (output !== 'pdf' && output !== 'zip') {
+      return NextResponse.json({ error: 'output must be "pdf" or "zip"' }, { status: 400 });
+    }
+
+    const themeError = validateThemeOptions(body);
+    if (themeError) {
+      return NextResponse.json({ error: themeError }, { status: 400 });
+    }
+
+    const options = readConvertOptions(body);
+    const result = await withBrowser(async browser => {
+      const urls = await collectTweetUrls(collection, options, limit, browser);
+      const converted = await convertBatch(urls, options, browser);
+      if (converted.documents.length === 0) {
+        return { converted, file: null };
+      }
+
+      const file = output === 'zip'
+        ? await zipDocuments(converted)
+        : await mergeWithTableOfContents(urls, converted, browser, resolveTheme(options.theme));
+      return { converted, file };
+    });
+
+    if (!result.file) {
+      return NextResponse.json(
+        { error: 'None of the collected tweets could be converted.', failures: result.converted.failures },
+        { status: 400 }
+      );
+    }
+
+    const fileName = `${collectionFileId(collection)}-${new Date().toISOString().slice(0, 10)}.${output}`;
+    const extractors = Array.from(new Set(result.converted.documents.flatMap(doc => (doc.extractor ? [doc.extractor] : []))));
+    const sourceMethods = Array.from(new Set(result.converted.documents.map(doc => doc.sourceMethod)));
+
+    return new NextResponse(new Uint8Array(result.file), {
+      status: 200,
+      headers: {
+        'Content-Type': output === 'zip' ? 'application/zip' : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Post-Count': String(result.converted.documents.length + result.converted.failures.length),
+        'X-Batch-Failed': String(result.converted.failures.length),
+        'X-Failed-Images': String(result.converted.documents.reduce((total, doc) => total + doc.failedImages.length, 0)),
+        ...(extractors.length > 0 && { 'X-Extractor': extractors.join(', ') }),
+        'X-Source-Method': sourceMethods.join(', '),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Collection export error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to export collection: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
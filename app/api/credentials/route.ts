@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { credentialStore } from '@/lib/credentials';
+
+export const dynamic = 'force-dynamic';
+
+// Account names and health only; tokens are never returned
+export async function GET() {
+  return NextResponse.json(await credentialStore.status());
+}
+
+// Re-checks every stored account against X, then reports the result
+export async function POST() {
+  try {
+    await credentialStore.checkAll();
+    return NextResponse.json(await credentialStore.status());
+  } catch (error) {
+    console.error('Credential check error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to check credentials: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { browserPool } from '@/lib/browser';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ status: 'ok', browserPool: browserPool.stats() });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { documentKey, readConvertOptions, sessionScope } from '@/lib/convert';
+import { generateDiffPDF } from '@/lib/diff';
+import { getSnapshot, isValidSnapshotId, listSnapshots } from '@/lib/history';
+import { resolveTheme, validateThemeOptions } from '@/lib/themes';
+import { isValidTwitterUrl } from '@/lib/urls';
+
+// Compares two captures of a URL as a PDF. `from` and `to` are version IDs
+// from /api/history; by default the latest capture is compared with the one before.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, from, to } = body;
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    if (!isValidTwitterUrl(url)) {
+      return NextResponse.json(
+        { error: 'Invalid Twitter/X URL. Please provide a valid tweet or article URL.' },
+        { status: 400 }
+      );
+    }
+
+    if ([from, to].some(id => id !== undefined && (typeof id !== 'string' || !isValidSnapshotId(id)))) {
+      return NextResponse.json(
+        { error: 'Invalid version ID. Use the IDs listed by /api/history.' },
+        { status: 400 }
+      );
+    }
+
+    const themeError = validateThemeOptions(body);
+    if (themeError) {
+      return NextResponse.json({ error: themeError }, { status: 400 });
+    }
+
+    const options = readConvertOptions(body);
+    const documentId = documentKey(url, options)!;
+    const session = sessionScope(options);
+    const versions = await listSnapshots(documentId, session);
+
+    const toId: string | undefined = to || versions[versions.length - 1]?.id;
+    const fromId: string | undefined = from || versions[versions.findIndex(version => version.id === toId) - 1]?.id;
+    if (!fromId || !toId || fromId === toId) {
+      return NextResponse.json(
+        { error: `Two different captures are needed to compare; ${versions.length} recorded for this URL. Convert it with refresh to capture it again.` },
+        { status: 400 }
+      );
+    }
+
+    // Always earlier first, whichever order they were given in
+    const [beforeId, afterId] = [fromId, toId].sort();
+    const [before, after] = await Promise.all([
+      getSnapshot(documentId, beforeId, session),
+      getSnapshot(documentId, afterId, session),
+    ]);
+    if (!before || !after) {
+      return NextResponse.json({ error: 'Capture not found' }, { status: 404 });
+    }
+
+    const pdf = await generateDiffPDF(before, after, resolveTheme(options.theme));
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${documentId}-changes-${before.id}-${after.id}.pdf"`,
+        'X-Content-Status': after.status,
+      },
+    });
+  } catch (error) {
+    console.error('History diff error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to compare captures: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
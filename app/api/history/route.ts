@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { documentKey, readConvertOptions, sessionScope } from '@/lib/convert';
+import { listSnapshots, unavailableSince } from '@/lib/history';
+import { isValidTwitterUrl } from '@/lib/urls';
+
+// Lists every recorded capture of a URL. POST, like the conversion routes,
+// so the caller's cookies (which unlock their own captures) stay out of URLs.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url } = body;
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    if (!isValidTwitterUrl(url)) {
+      return NextResponse.json(
+        { error: 'Invalid Twitter/X URL. Please provide a valid tweet or article URL.' },
+        { status: 400 }
+      );
+    }
+
+    const options = readConvertOptions(body);
+    const documentId = documentKey(url, options)!;
+    const versions = await listSnapshots(documentId, sessionScope(options));
+
+    return NextResponse.json({
+      documentId,
+      versions,
+      // Set when the latest captures found the content private or deleted
+      unavailableSince: unavailableSince(versions),
+      diffUrl: '/api/history/diff',
+    });
+  } catch (error) {
+    console.error('History error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to list captures: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
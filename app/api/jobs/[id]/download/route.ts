@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, readJobResult } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const job = await getJob(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  if (job.status !== 'done') {
+    return NextResponse.json(
+      { error: `Job is not finished (status: ${job.status})`, status: job.status },
+      { status: 409 }
+    );
+  }
+
+  const result = await readJobResult(job.id);
+  if (!result) {
+    return NextResponse.json({ error: 'Job result has expired' }, { status: 410 });
+  }
+
+  return new NextResponse(new Uint8Array(result), {
+    status: 200,
+    headers: {
+      'Content-Type': job.contentType || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${job.fileName || job.id}"`,
+      ...(job.extractor && { 'X-Extractor': job.extractor }),
+      ...(job.sourceMethod && { 'X-Source-Method': job.sourceMethod }),
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  const job = await getJob(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    ...job,
+    downloadUrl: job.status === 'done' ? `/api/jobs/${job.id}/download` : undefined,
+  });
+}
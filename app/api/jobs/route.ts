@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readConvertOptions } from '@/lib/convert';
+import { isOutputFormat, OUTPUT_FORMATS } from '@/lib/formats';
+import { createJob } from '@/lib/jobs';
+import { validateThemeOptions } from '@/lib/themes';
+import { isValidTwitterUrl } from '@/lib/urls';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, format = 'pdf' } = body;
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    if (!isValidTwitterUrl(url)) {
+      return NextResponse.json(
+        { error: 'Invalid Twitter/X URL. Please provide a valid tweet or article URL.' },
+        { status: 400 }
+      );
+    }
+
+    if (!isOutputFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Supported formats: ${OUTPUT_FORMATS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+
+    const themeError = validateThemeOptions(body);
+    if (themeError) {
+      return NextResponse.json({ error: themeError }, { status: 400 });
+    }
+
+    const job = await createJob(url, format, readConvertOptions(body));
+
+    return NextResponse.json(
+      {
+        ...job,
+        statusUrl: `/api/jobs/${job.id}`,
+        downloadUrl: `/api/jobs/${job.id}/download`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Job submission error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to queue conversion: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
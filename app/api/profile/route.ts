@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withBrowser } from '@/lib/browser';
+import { ConversionError } from '@/lib/convert';
+import { exportProfile, readProfileExportOptions, validateProfileExportOptions } from '@/lib/profile';
+import { validateThemeOptions } from '@/lib/themes';
+import { extractProfileHandle } from '@/lib/urls';
+
+// Exports a profile's posts as one chronological PDF. `url` is a profile URL
+// or @handle; `count`, `since` and `until` pick the posts.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url } = body;
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const handle = typeof url === 'string' ? extractProfileHandle(url) : null;
+    if (!handle) {
+      return NextResponse.json(
+        { error: 'Invalid profile. Please provide an X profile URL or @handle.' },
+        { status: 400 }
+      );
+    }
+
+    const rangeError = validateProfileExportOptions(body);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const themeError = validateThemeOptions(body);
+    if (themeError) {
+      return NextResponse.json({ error: themeError }, { status: 400 });
+    }
+
+    const options = readProfileExportOptions(body);
+    const output = await withBrowser(browser => exportProfile(handle, options, browser));
+
+    return new NextResponse(new Uint8Array(output.pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${output.fileName}"`,
+        'X-Post-Count': String(output.posts),
+        'X-Failed-Images': String(output.failedImages.length),
+        ...(output.extractor && { 'X-Extractor': output.extractor }),
+      },
+    });
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Profile export error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to export profile: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
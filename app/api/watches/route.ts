@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOutputFormat, OUTPUT_FORMATS } from '@/lib/formats';
+import { readThemeOptions, validateThemeOptions } from '@/lib/themes';
+import { extractProfileHandle } from '@/lib/urls';
+import { listWatches, MIN_WATCH_INTERVAL_MINUTES, removeWatch, saveWatch } from '@/lib/watches';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ watches: await listWatches() });
+}
+
+// Starts watching a handle, or replaces the settings of an existing watch
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { format = 'pdf', intervalMinutes } = body;
+    const handle = typeof body.handle === 'string' ? extractProfileHandle(body.handle) : null;
+
+    if (!handle) {
+      return NextResponse.json(
+        { error: 'Invalid handle. Please provide an @handle or an X profile URL.' },
+        { status: 400 }
+      );
+    }
+
+    if (intervalMinutes !== undefined && !(typeof intervalMinutes === 'number' && intervalMinutes >= MIN_WATCH_INTERVAL_MINUTES)) {
+      return NextResponse.json(
+        { error: `intervalMinutes must be a number of at least ${MIN_WATCH_INTERVAL_MINUTES}.` },
+        { status: 400 }
+      );
+    }
+
+    if (!isOutputFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Supported formats: ${OUTPUT_FORMATS.join(', ')}.` },
+        { status: 400 }
+      );
+    }
+
+    const themeError = validateThemeOptions(body);
+    if (themeError) {
+      return NextResponse.json({ error: themeError }, { status: 400 });
+    }
+
+    const { watch, created } = await saveWatch({
+      handle,
+      intervalMinutes,
+      format,
+      hideMetrics: Boolean(body.hideMetrics),
+      theme: readThemeOptions(body),
+    });
+
+    return NextResponse.json(watch, { status: created ? 201 : 200 });
+  } catch (error) {
+    console.error('Watch error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to save watch: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
+
+// Stops watching; what was already archived stays on disk
+export async function DELETE(request: NextRequest) {
+  const handle = extractProfileHandle(request.nextUrl.searchParams.get('handle') || '');
+
+  if (!handle || !(await removeWatch(handle))) {
+    return NextResponse.json({ error: 'Watch not found' }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConversionError } from '@/lib/convert';
+import { extractProfileHandle } from '@/lib/urls';
+import { listRuns, runWatch } from '@/lib/watches';
+
+export const dynamic = 'force-dynamic';
+
+// The run log, newest first, optionally for one handle
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const handle = params.get('handle');
+  const limit = Number(params.get('limit')) || 50;
+
+  return NextResponse.json({
+    runs: await listRuns(handle ? extractProfileHandle(handle) || handle : undefined, Math.min(Math.max(limit, 1), 500)),
+  });
+}
+
+// Runs a watch now instead of waiting for its interval, and reports the run
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const handle = typeof body.handle === 'string' ? extractProfileHandle(body.handle) : null;
+
+    if (!handle) {
+      return NextResponse.json(
+        { error: 'Invalid handle. Please provide an @handle or an X profile URL.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await runWatch(handle));
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Watch run error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: `Failed to run watch: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
@@ -2,23 +2,72 @@
 
 import { useState } from 'react';
 
+const FORMAT_LABELS: Record<string, string> = {
+  pdf: 'PDF',
+  epub: 'EPUB',
+  markdown: 'Markdown',
+  html: 'HTML',
+  png: 'PNG',
+  json: 'JSON',
+};
+
+const THEME_LABELS: Record<string, string> = {
+  default: 'Default',
+  dark: 'Dark',
+  print: 'Print (serif)',
+  compact: 'Compact',
+};
+
+const PAGE_SIZES = ['A4', 'Letter', 'A5'];
+
+// Formats rendered from the themed HTML; the others carry content only
+const THEMED_FORMATS = ['pdf', 'html', 'png'];
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: 'Waiting in queue...',
+  scraping: 'Fetching from X...',
+  rendering: 'Rendering PDF...',
+};
+
+async function throwIfFailed(response: Response) {
+  if (response.ok) return;
+  const contentType = response.headers.get('content-type');
+  if (contentType && contentType.includes('application/json')) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to convert');
+  }
+  throw new Error(`Server error: ${response.status}`);
+}
+
 export default function Home() {
   const [url, setUrl] = useState('');
   const [authToken, setAuthToken] = useState('');
   const [csrfToken, setCsrfToken] = useState('');
   const [showAuth, setShowAuth] = useState(true);
+  const [thread, setThread] = useState(false);
+  const [format, setFormat] = useState('pdf');
+  const [showMetrics, setShowMetrics] = useState(true);
+  const [theme, setTheme] = useState('default');
+  const [pageSize, setPageSize] = useState('A4');
+  const [brand, setBrand] = useState(false);
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [refresh, setRefresh] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [status, setStatus] = useState('');
+  const [warning, setWarning] = useState('');
 
   const isArticleUrl = url.includes('/i/article/');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setWarning('');
     setLoading(true);
 
     try {
-      const response = await fetch('/api/convert', {
+      // Conversions run as background jobs so slow articles don't hit request timeouts
+      const submitResponse = await fetch('/api/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -27,32 +76,51 @@ export default function Home() {
           url,
           authToken: authToken || undefined,
           csrfToken: csrfToken || undefined,
+          thread: !isArticleUrl && thread ? true : undefined,
+          format,
+          hideMetrics: showMetrics ? undefined : true,
+          theme,
+          pageSize,
+          brand: brand || undefined,
+          tableOfContents: isArticleUrl && tableOfContents ? true : undefined,
+          refresh: refresh || undefined,
         }),
       });
+      await throwIfFailed(submitResponse);
 
-      if (!response.ok) {
-        const contentType = response.headers.get('content-type');
-        if (contentType && contentType.includes('application/json')) {
-          const data = await response.json();
-          throw new Error(data.error || 'Failed to convert');
-        } else {
-          throw new Error(`Server error: ${response.status}`);
+      let job = await submitResponse.json();
+      while (job.status !== 'done') {
+        if (job.status === 'failed') {
+          throw new Error(job.error || 'Failed to convert');
         }
+        setStatus(job.status);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        const statusResponse = await fetch(job.statusUrl || `/api/jobs/${job.id}`);
+        await throwIfFailed(statusResponse);
+        job = { ...job, ...(await statusResponse.json()) };
       }
 
+      const response = await fetch(job.downloadUrl);
+      await throwIfFailed(response);
+
       const blob = await response.blob();
       const downloadUrl = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = downloadUrl;
-      a.download = isArticleUrl ? 'article.pdf' : 'tweet.pdf';
+      a.download = job.fileName || (isArticleUrl ? 'article.pdf' : thread ? 'thread.pdf' : 'tweet.pdf');
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(downloadUrl);
       document.body.removeChild(a);
+
+      if (job.failedImages?.length) {
+        setWarning(`${job.failedImages.length} image(s) could not be downloaded and are missing from the file.`);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
       setLoading(false);
+      setStatus('');
     }
   };
 
@@ -89,10 +157,135 @@ export default function Home() {
             />
           </div>
 
-          <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
-            Authentication required. Please provide your auth cookies below.
+          <div>
+            <label
+              htmlFor="format"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Format
+            </label>
+            <select
+              id="format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-gray-900 bg-white"
+            >
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
           </div>
 
+          {THEMED_FORMATS.includes(format) && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label
+                  htmlFor="theme"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Theme
+                </label>
+                <select
+                  id="theme"
+                  value={theme}
+                  onChange={(e) => setTheme(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-gray-900 bg-white"
+                >
+                  {Object.entries(THEME_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  htmlFor="pageSize"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Page size
+                </label>
+                <select
+                  id="pageSize"
+                  value={pageSize}
+                  onChange={(e) => setPageSize(e.target.value)}
+                  disabled={format !== 'pdf'}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-gray-900 bg-white disabled:bg-gray-100 disabled:text-gray-400"
+                >
+                  {PAGE_SIZES.map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {THEMED_FORMATS.includes(format) && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={brand}
+                onChange={(e) => setBrand(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Add Merkle Labs header and footer
+            </label>
+          )}
+
+          {isArticleUrl && THEMED_FORMATS.includes(format) && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={tableOfContents}
+                onChange={(e) => setTableOfContents(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Start with a linked table of contents
+            </label>
+          )}
+
+          {!isArticleUrl && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={thread}
+                onChange={(e) => setThread(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Unroll the full thread by this author
+            </label>
+          )}
+
+          {!isArticleUrl && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showMetrics}
+                onChange={(e) => setShowMetrics(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Include replies, reposts, likes and views
+            </label>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={refresh}
+              onChange={(e) => setRefresh(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Capture again instead of using a cached copy
+          </label>
+
+          {isArticleUrl || thread ? (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+              Authentication required for articles and threads. Provide your auth cookies below unless this server has stored accounts configured.
+            </div>
+          ) : (
+            <div className="p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg text-sm">
+              Public tweets convert without cookies. Add your auth cookies below for protected tweets.
+            </div>
+          )}
+
           <div>
             <button
               type="button"
@@ -145,6 +338,12 @@ export default function Home() {
             )}
           </div>
 
+          {warning && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+              {warning}
+            </div>
+          )}
+
           {error && (
             <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded-lg text-sm">
               {error}
@@ -178,16 +377,16 @@ export default function Home() {
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                   ></path>
                 </svg>
-                Converting...
+                {STATUS_LABELS[status] || 'Converting...'}
               </span>
             ) : (
-              'Convert to PDF'
+              `Convert to ${FORMAT_LABELS[format]}`
             )}
           </button>
         </form>
 
         <p className="mt-6 text-center text-sm text-gray-500">
-          Supports tweets and articles. Auth cookies required.
+          Supports tweets and articles. Auth cookies required for articles, threads and protected tweets.
         </p>
       </div>
     </main>
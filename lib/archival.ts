@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AFRelationship,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFString,
+} from 'pdf-lib';
+import type { Browser } from 'puppeteer';
+import type { ConvertOptions, PreparedDocument } from './convert';
+import { credentialStore } from './credentials';
+import type { RenderedOutput } from './formats';
+import { generatePDF, type PdfMetadata } from './pdf';
+import { toExportDocument } from './schema';
+import { captureScreenshot } from './scraper';
+import { generateEvidenceHTML, type EvidenceEntry } from './templates';
+
+// sRGB profile for the PDF/A output intent; pdfkit ships one
+const ICC_PROFILE_PATH = process.env.PDFA_ICC_PROFILE
+  || path.join(process.cwd(), 'node_modules', 'pdfkit', 'js', 'data', 'sRGB_IEC61966_2_1.icc');
+
+const PRODUCER = 'Tweets to PDF';
+
+/** What an archival PDF carries besides the rendered document */
+export interface CaptureEvidence {
+  /** The JSON export of the scraped content, byte for byte as attached */
+  json: string;
+  sha256: string;
+  screenshot: Buffer | null;
+  screenshotAt: string | null;
+  /** Why the screenshot is missing, if it is */
+  screenshotError: string | null;
+}
+
+/**
+ * Serializes and hashes the scraped content and takes a full-page screenshot
+ * of the live page. The screenshot uses the caller's cookies or a stored
+ * account when there is one, otherwise the logged-out view; a failed
+ * screenshot is recorded rather than failing the capture.
+ */
+export async function collectEvidence(doc: PreparedDocument, options: ConvertOptions, browser?: Browser): Promise<CaptureEvidence> {
+  const json = JSON.stringify(toExportDocument(doc), null, 2);
+  const sha256 = createHash('sha256').update(json).digest('hex');
+
+  const auth = options.authToken
+    ? { authToken: options.authToken, csrfToken: options.csrfToken }
+    : (await credentialStore.next())?.auth;
+
+  try {
+    const screenshot = await captureScreenshot(doc.url, auth, browser);
+    return { json, sha256, screenshot, screenshotAt: new Date().toISOString(), screenshotError: null };
+  } catch (error) {
+    console.warn(`Evidence screenshot failed for ${doc.url}:`, error);
+    const screenshotError = error instanceof Error ? error.message : 'Unknown error';
+    return { json, sha256, screenshot: null, screenshotAt: null, screenshotError };
+  }
+}
+
+function evidenceEntries(doc: PreparedDocument, evidence: CaptureEvidence): EvidenceEntry[] {
+  return [
+    { label: 'Original URL', value: doc.url },
+    { label: 'Content captured at', value: doc.capturedAt },
+    { label: 'Captured via', value: doc.extractor ? `${doc.sourceMethod} (${doc.extractor})` : doc.sourceMethod },
+    { label: 'SHA-256 of capture.json', value: evidence.sha256 },
+    {
+      label: 'Screenshot taken at',
+      value: evidence.screenshotAt || `Not available: ${evidence.screenshotError || 'unknown error'}`,
+    },
+    {
+      label: 'Attached files',
+      value: evidence.screenshot ? 'capture.json, screenshot.png' : 'capture.json',
+    },
+  ];
+}
+
+function xmlEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// XMP dates must match the info dictionary, which has second precision
+function xmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/** The XMP packet PDF/A requires, mirroring the document information dictionary */
+function buildXmp(metadata: PdfMetadata, author: string, created: Date, modified: Date): string {
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"
+        xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${xmlEscape(metadata.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${xmlEscape(author)}</rdf:li></rdf:Seq></dc:creator>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${xmlEscape(metadata.subject)}</rdf:li></rdf:Alt></dc:description>
+      <pdf:Keywords>${xmlEscape(metadata.keywords.join(' '))}</pdf:Keywords>
+      <pdf:Producer>${PRODUCER}</pdf:Producer>
+      <xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>
+      <xmp:CreateDate>${xmpDate(created)}</xmp:CreateDate>
+      <xmp:ModifyDate>${xmpDate(modified)}</xmp:ModifyDate>
+      <xmp:MetadataDate>${xmpDate(modified)}</xmp:MetadataDate>
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Adds what PDF/A-3b asks of a Chromium PDF: an sRGB output intent, XMP
+ * metadata matching the info dictionary, a file identifier, and printable
+ * annotations. Chromium already embeds every font it uses.
+ */
+async function applyPdfA(pdf: PDFDocument, metadata: PdfMetadata): Promise<void> {
+  const { context, catalog } = pdf;
+  const author = metadata.authorName && metadata.author ? `${metadata.authorName} (${metadata.author})` : metadata.authorName || metadata.author;
+  // Whole seconds, so the info dictionary and XMP agree exactly
+  const created = new Date(Math.floor((Date.parse(metadata.capturedAt) || Date.now()) / 1000) * 1000);
+  const modified = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+  pdf.setTitle(metadata.title, { showInWindowTitleBar: true });
+  pdf.setAuthor(author);
+  pdf.setSubject(metadata.subject);
+  pdf.setKeywords(metadata.keywords);
+  pdf.setCreator(PRODUCER);
+  pdf.setProducer(PRODUCER);
+  pdf.setCreationDate(created);
+  pdf.setModificationDate(modified);
+
+  const xmp = context.stream(buildXmp(metadata, author, created, modified), { Type: 'Metadata', Subtype: 'XML' });
+  catalog.set(PDFName.of('Metadata'), context.register(xmp));
+
+  const profile = context.flateStream(await fs.readFile(ICC_PROFILE_PATH), { N: 3 });
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of('sRGB IEC61966-2.1'),
+    Info: PDFString.of('sRGB IEC61966-2.1'),
+    DestOutputProfile: context.register(profile),
+  });
+  catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]));
+
+  const id = PDFHexString.of(createHash('md5').update(`${metadata.url}\n${modified.toISOString()}`).digest('hex'));
+  context.trailerInfo.ID = context.obj([id, id]);
+
+  // Every annotation must be marked printable
+  for (const page of pdf.getPages()) {
+    const annotations = page.node.Annots();
+    for (let index = 0; index < (annotations?.size() ?? 0); index++) {
+      annotations!.lookup(index, PDFDict).set(PDFName.of('F'), PDFNumber.of(4));
+    }
+  }
+}
+
+/**
+ * Renders the document as PDF/A-3b with a capture evidence appendix (URL,
+ * times, SHA-256 of the scraped JSON and the screenshot) and the JSON and
+ * screenshot attached as associated files.
+ */
+export async function generateArchivalPDF(doc: PreparedDocument, evidence: CaptureEvidence, browser?: Browser): Promise<Buffer> {
+  const screenshotUri = evidence.screenshot ? `data:image/png;base64,${evidence.screenshot.toString('base64')}` : null;
+  // The appendix is printed separately, so it's numbered on its own
+  const appendixTheme = {
+    ...doc.theme,
+    page: { ...doc.theme.page, footer: doc.theme.page.footer && 'Capture evidence · Page {page} of {pages}' },
+  };
+  const [body, appendix] = await Promise.all([
+    generatePDF(doc.html, browser, doc.theme, doc),
+    generatePDF(generateEvidenceHTML(evidenceEntries(doc, evidence), screenshotUri, { theme: appendixTheme }), browser, appendixTheme, doc),
+  ]);
+
+  const pdf = await PDFDocument.load(body, { updateMetadata: false });
+  const appendixPdf = await PDFDocument.load(appendix);
+  const pages = await pdf.copyPages(appendixPdf, appendixPdf.getPageIndices());
+  pages.forEach(page => pdf.addPage(page));
+
+  const capturedAt = new Date(doc.capturedAt);
+  await pdf.attach(Buffer.from(evidence.json), 'capture.json', {
+    mimeType: 'application/json',
+    description: `Scraped content, SHA-256 ${evidence.sha256}`,
+    creationDate: capturedAt,
+    modificationDate: capturedAt,
+    afRelationship: AFRelationship.Source,
+  });
+  if (evidence.screenshot) {
+    const screenshotAt = new Date(evidence.screenshotAt!);
+    await pdf.attach(evidence.screenshot, 'screenshot.png', {
+      mimeType: 'image/png',
+      description: `Full-page screenshot of ${doc.url}`,
+      creationDate: screenshotAt,
+      modificationDate: screenshotAt,
+      afRelationship: AFRelationship.Supplement,
+    });
+  }
+
+  await applyPdfA(pdf, doc);
+
+  // Cross-reference streams don't carry the file identifier, so write a classic trailer
+  return Buffer.from(await pdf.save({ useObjectStreams: false }));
+}
+
+/** Collects the evidence and renders the archival PDF, for the `archival` convert mode */
+export async function renderArchivalOutput(doc: PreparedDocument, options: ConvertOptions, browser?: Browser): Promise<RenderedOutput & { sha256: string }> {
+  const evidence = await collectEvidence(doc, options, browser);
+  return {
+    body: await generateArchivalPDF(doc, evidence, browser),
+    contentType: 'application/pdf',
+    fileName: `${doc.fileId}-archival.pdf`,
+    sha256: evidence.sha256,
+  };
+}
@@ -0,0 +1,223 @@
+import JSZip from 'jszip';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRef, PDFString, type PDFObject } from 'pdf-lib';
+import type { Browser } from 'puppeteer';
+import { ConversionError, prepareDocument, type ConvertOptions, type SourceMethod } from './convert';
+import { renderOutput } from './formats';
+import { generatePDF } from './pdf';
+import { contentsPageAnchor, generateTableOfContentsHTML, type TableOfContentsEntry } from './templates';
+import { resolveTheme, type Theme } from './themes';
+
+// Largest batch accepted in one request; a weekly digest is typically 30-50 URLs
+export const MAX_BATCH_URLS = 100;
+
+export interface BatchDocument {
+  url: string;
+  fileId: string;
+  title: string;
+  pdf: Buffer;
+  failedImages: string[];
+  extractor: string | null;
+  sourceMethod: SourceMethod;
+}
+
+export interface BatchFailure {
+  url: string;
+  error: string;
+}
+
+export interface BatchResult {
+  documents: BatchDocument[];
+  failures: BatchFailure[];
+}
+
+/**
+ * Converts each URL in order with a single shared browser. A failing URL is
+ * recorded and skipped so one deleted tweet doesn't sink the whole batch.
+ */
+export async function convertBatch(urls: string[], options: ConvertOptions, browser: Browser): Promise<BatchResult> {
+  const documents: BatchDocument[] = [];
+  const failures: BatchFailure[] = [];
+
+  for (const url of urls) {
+    try {
+      const doc = await prepareDocument(url, options, browser);
+      const { body: pdf } = await renderOutput(doc, 'pdf', browser);
+      documents.push({
+        url,
+        fileId: doc.fileId,
+        title: doc.title,
+        pdf,
+        failedImages: doc.media.failed,
+        extractor: doc.extractor,
+        sourceMethod: doc.sourceMethod,
+      });
+    } catch (error) {
+      if (!(error instanceof ConversionError)) {
+        console.error(`Batch conversion error for ${url}:`, error);
+      }
+      failures.push({ url, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return { documents, failures };
+}
+
+interface OutlineItem {
+  title: string;
+  page: PDFRef;
+  /** Where on the page to land, as in an explicit destination; defaults to the whole page */
+  position?: PDFObject[];
+  children: OutlineItem[];
+}
+
+/**
+ * Reads a document's bookmarks (Chromium writes explicit page destinations),
+ * pointing them at the pages they were copied to.
+ */
+function readOutline(doc: PDFDocument, copiedPages: Map<string, PDFRef>): OutlineItem[] {
+  const readLevel = (first: PDFObject | undefined): OutlineItem[] => {
+    const level: OutlineItem[] = [];
+    for (let ref = first; ref instanceof PDFRef; ) {
+      const item = doc.context.lookup(ref, PDFDict);
+      const title = item.lookupMaybe(PDFName.of('Title'), PDFString, PDFHexString);
+      const dest = item.lookupMaybe(PDFName.of('Dest'), PDFArray);
+      const target = dest?.get(0);
+      const page = target instanceof PDFRef ? copiedPages.get(target.toString()) : undefined;
+      if (title && page) {
+        level.push({ title: title.decodeText(), page, position: dest!.asArray().slice(1), children: readLevel(item.get(PDFName.of('First'))) });
+      }
+      ref = item.get(PDFName.of('Next'));
+    }
+    return level;
+  };
+
+  return readLevel(doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)?.get(PDFName.of('First')));
+}
+
+/** Writes `items` as the document's bookmarks, the top level open and everything below closed */
+function writeOutline(doc: PDFDocument, items: OutlineItem[]): void {
+  const writeLevel = (level: OutlineItem[], parent: PDFRef): PDFRef[] => {
+    const refs = level.map(() => doc.context.nextRef());
+    level.forEach((item, index) => {
+      const children = writeLevel(item.children, refs[index]);
+      doc.context.assign(refs[index], doc.context.obj({
+        Title: PDFHexString.fromText(item.title),
+        Parent: parent,
+        Dest: [item.page, ...(item.position || [PDFName.of('Fit')])],
+        ...(index > 0 && { Prev: refs[index - 1] }),
+        ...(index < refs.length - 1 && { Next: refs[index + 1] }),
+        ...(children.length > 0 && { First: children[0], Last: children[children.length - 1], Count: -children.length }),
+      }));
+    });
+    return refs;
+  };
+
+  const root = doc.context.nextRef();
+  const top = writeLevel(items, root);
+  doc.context.assign(root, doc.context.obj({
+    Type: 'Outlines',
+    ...(top.length > 0 && { First: top[0], Last: top[top.length - 1], Count: top.length }),
+  }));
+  doc.catalog.set(PDFName.of('Outlines'), root);
+}
+
+/**
+ * Concatenates the batch into one PDF, preceded by a contents page listing each
+ * document's starting page. Failed URLs are listed in the contents as well.
+ * The contents page is rendered with `theme` so it matches the documents.
+ * Each contents line links to its document, and the bookmarks list every
+ * document with its own headings beneath it.
+ */
+export async function mergeWithTableOfContents(urls: string[], result: BatchResult, browser: Browser, theme: Theme = resolveTheme()): Promise<Buffer> {
+  const loaded = await Promise.all(
+    result.documents.map(async doc => ({ doc, pdf: await PDFDocument.load(doc.pdf) }))
+  );
+
+  // Documents and failures are both in URL order, so walk them alongside `urls`
+  const buildEntries = (tocPages: number): TableOfContentsEntry[] => {
+    let nextPage = tocPages + 1;
+    let docIndex = 0;
+    let failureIndex = 0;
+    return urls.map(url => {
+      const match = loaded[docIndex];
+      if (!match || match.doc.url !== url) {
+        const failure = result.failures[failureIndex++];
+        return { title: 'Could not convert', url, error: failure?.error || 'Unknown error' };
+      }
+      docIndex++;
+      const page = nextPage;
+      nextPage += match.pdf.getPageCount();
+      return { title: match.doc.title, url, page };
+    });
+  };
+
+  // Page numbers depend on the contents' own length, so re-render until it is stable
+  const renderContents = async (tocPages: number) =>
+    PDFDocument.load(await generatePDF(generateTableOfContentsHTML(buildEntries(tocPages), { theme }), browser, theme));
+
+  let tocPages = 1;
+  let tocPdf = await renderContents(tocPages);
+  for (let attempt = 0; attempt < 3 && tocPdf.getPageCount() !== tocPages; attempt++) {
+    tocPages = tocPdf.getPageCount();
+    tocPdf = await renderContents(tocPages);
+  }
+
+  const merged = await PDFDocument.create();
+  const copy = async (source: PDFDocument) => {
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+    return pages;
+  };
+
+  // copyPages leaves each source's bookmarks behind, so they're rebuilt per document
+  const contentsPages = await copy(tocPdf);
+  const outline: OutlineItem[] = [{ title: 'Contents', page: contentsPages[0].ref, children: [] }];
+  for (const { doc, pdf } of loaded) {
+    const pages = await copy(pdf);
+    const copiedPages = new Map(pdf.getPages().map((page, index) => [page.ref.toString(), pages[index].ref]));
+    outline.push({ title: doc.title, page: pages[0].ref, children: readOutline(pdf, copiedPages) });
+  }
+  writeOutline(merged, outline);
+  merged.setCreator('Tweets to PDF');
+  merged.setProducer('Tweets to PDF');
+
+  // Contents lines link to an anchor on their own page number; point them at the page instead
+  const anchors = new Map(merged.getPages().map((page, index) => [contentsPageAnchor(index + 1), page.ref]));
+  for (const page of contentsPages) {
+    for (const annotation of page.node.Annots()?.asArray() || []) {
+      const link = merged.context.lookup(annotation, PDFDict);
+      const anchor = link.lookupMaybe(PDFName.of('Dest'), PDFName)?.decodeText();
+      const target = anchor && anchors.get(anchor);
+      if (target) {
+        link.set(PDFName.of('Dest'), merged.context.obj([target, PDFName.of('Fit')]));
+      }
+    }
+  }
+
+  return Buffer.from(await merged.save());
+}
+
+/**
+ * Packs each document as `<fileId>.pdf`, plus a `failures.json` when any URL
+ * could not be converted.
+ */
+export async function zipDocuments(result: BatchResult): Promise<Buffer> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (const doc of result.documents) {
+    // The same URL may appear twice in a batch; keep both copies
+    let name = `${doc.fileId}.pdf`;
+    for (let copy = 2; usedNames.has(name); copy++) {
+      name = `${doc.fileId}-${copy}.pdf`;
+    }
+    usedNames.add(name);
+    zip.file(name, doc.pdf);
+  }
+
+  if (result.failures.length > 0) {
+    zip.file('failures.json', JSON.stringify(result.failures, null, 2));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
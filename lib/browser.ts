@@ -0,0 +1,236 @@
+import puppeteer, { type Browser, type Page } from 'puppeteer';
+import type { AuthCookies } from './types';
+
+// Pool sizing, overridable per deployment. Memory is bounded by
+// BROWSER_POOL_SIZE browsers with at most BROWSER_MAX_PAGES open pages each.
+const POOL_SIZE = Number(process.env.BROWSER_POOL_SIZE) || 2;
+const MAX_PAGES_PER_BROWSER = Number(process.env.BROWSER_MAX_PAGES) || 3;
+const MAX_USES_PER_BROWSER = Number(process.env.BROWSER_MAX_USES) || 50;
+const IDLE_TIMEOUT_MS = Number(process.env.BROWSER_IDLE_TIMEOUT_MS) || 5 * 60 * 1000;
+const HEALTH_CHECK_INTERVAL_MS = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = 5 * 1000;
+
+async function launchBrowser(): Promise<Browser> {
+  return puppeteer.launch({
+    headless: true,
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    // No --single-process: pooled browsers host several contexts, and closing
+    // one in single-process mode can take the whole browser down
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+      '--disable-software-rasterizer',
+    ],
+  });
+}
+
+interface PooledBrowser {
+  browser: Browser;
+  uses: number;
+  active: number;
+  retiring: boolean;
+  lastUsed: number;
+}
+
+/**
+ * Long-lived set of Chromium instances shared by all requests. Each lease gets
+ * its own browser context via `withPage`, so cookies never leak between
+ * requests. Browsers are recycled after MAX_USES_PER_BROWSER leases, on crash,
+ * when a health check fails, or after sitting idle.
+ */
+class BrowserPool {
+  private entries: PooledBrowser[] = [];
+  private launching = 0;
+  private waiters: (() => void)[] = [];
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  async acquire(): Promise<PooledBrowser> {
+    for (;;) {
+      const available = this.entries
+        .filter(entry => !entry.retiring && entry.browser.connected && entry.active < MAX_PAGES_PER_BROWSER)
+        .sort((a, b) => a.active - b.active)[0];
+
+      if (available) {
+        available.active++;
+        available.uses++;
+        available.lastUsed = Date.now();
+        if (available.uses >= MAX_USES_PER_BROWSER) {
+          available.retiring = true;
+        }
+        return available;
+      }
+
+      if (this.entries.length + this.launching < POOL_SIZE) {
+        this.launching++;
+        try {
+          await this.launch();
+        } finally {
+          this.launching--;
+          this.wake();
+        }
+        continue;
+      }
+
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+  }
+
+  release(entry: PooledBrowser): void {
+    entry.active--;
+    entry.lastUsed = Date.now();
+    if ((entry.retiring || !entry.browser.connected) && entry.active <= 0) {
+      this.discard(entry);
+    }
+    this.wake();
+  }
+
+  stats() {
+    return {
+      size: POOL_SIZE,
+      browsers: this.entries.map(entry => ({
+        connected: entry.browser.connected,
+        uses: entry.uses,
+        active: entry.active,
+        retiring: entry.retiring,
+      })),
+      waiting: this.waiters.length,
+    };
+  }
+
+  private async launch(): Promise<void> {
+    const browser = await launchBrowser();
+    const entry: PooledBrowser = { browser, uses: 0, active: 0, retiring: false, lastUsed: Date.now() };
+
+    browser.on('disconnected', () => {
+      // Crashed or closed underneath us; in-flight leases fail on their own
+      entry.retiring = true;
+      this.entries = this.entries.filter(item => item !== entry);
+      this.wake();
+    });
+
+    this.entries.push(entry);
+    this.scheduleHealthChecks();
+  }
+
+  private discard(entry: PooledBrowser): void {
+    entry.retiring = true;
+    this.entries = this.entries.filter(item => item !== entry);
+    entry.browser.close().catch(() => {
+      entry.browser.process()?.kill('SIGKILL');
+    });
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private scheduleHealthChecks(): void {
+    if (this.healthTimer) return;
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(error => console.error('Browser pool health check failed:', error));
+    }, HEALTH_CHECK_INTERVAL_MS);
+    // Don't keep the process alive just for health checks
+    this.healthTimer.unref();
+  }
+
+  private async checkHealth(): Promise<void> {
+    const now = Date.now();
+
+    for (const entry of [...this.entries]) {
+      if (entry.active > 0) continue;
+
+      if (entry.retiring || now - entry.lastUsed > IDLE_TIMEOUT_MS) {
+        this.discard(entry);
+        continue;
+      }
+
+      const responsive = await Promise.race([
+        entry.browser.version().then(() => true, () => false),
+        new Promise<boolean>(resolve => setTimeout(() => resolve(false), HEALTH_CHECK_TIMEOUT_MS)),
+      ]);
+      if (!responsive) {
+        console.error('Recycling unresponsive browser');
+        // It may have been leased while we waited; retire it once that lease ends
+        entry.retiring = true;
+        if (entry.active === 0) {
+          this.discard(entry);
+        }
+      }
+    }
+
+    if (this.entries.length === 0 && this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+}
+
+// Kept on globalThis so dev-mode hot reloads don't orphan running browsers
+const globalForPool = globalThis as unknown as { browserPool?: BrowserPool };
+export const browserPool = globalForPool.browserPool ?? (globalForPool.browserPool = new BrowserPool());
+
+/**
+ * Leases a pooled browser for the duration of `fn`. Use this to run several
+ * `withPage` calls against one browser, e.g. across a batch.
+ */
+export async function withBrowser<T>(fn: (browser: Browser) => Promise<T>): Promise<T> {
+  const entry = await browserPool.acquire();
+  try {
+    return await fn(entry.browser);
+  } finally {
+    browserPool.release(entry);
+  }
+}
+
+export async function setupPage(page: Page, auth?: AuthCookies): Promise<void> {
+  await page.setUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+  await page.setViewport({ width: 1200, height: 800 });
+
+  // Set auth cookies if provided
+  const cookies = [];
+  if (auth?.authToken) {
+    cookies.push({
+      name: 'auth_token',
+      value: auth.authToken,
+      domain: '.x.com',
+      path: '/',
+      httpOnly: true,
+      secure: true,
+    });
+  }
+  if (auth?.csrfToken) {
+    cookies.push({
+      name: 'ct0',
+      value: auth.csrfToken,
+      domain: '.x.com',
+      path: '/',
+      secure: true,
+    });
+  }
+  if (cookies.length > 0) {
+    await page.setCookie(...cookies);
+  }
+}
+
+/**
+ * Runs `fn` with a page in a fresh browser context, which is closed afterwards
+ * along with its cookies. Without a browser, one is leased from the pool for
+ * this call.
+ */
+export async function withPage<T>(browser: Browser | undefined, fn: (page: Page) => Promise<T>): Promise<T> {
+  if (!browser) {
+    return withBrowser(pooled => withPage(pooled, fn));
+  }
+
+  const context = await browser.createBrowserContext();
+  try {
+    const page = await context.newPage();
+    return await fn(page);
+  } finally {
+    await context.close().catch(() => {});
+  }
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeFileAtomic } from './files';
+
+// Scraped content and rendered files, shared by every route. Entries are
+// named after the tweet or article ID they belong to plus a digest of what
+// went into them, so a changed option or a fresh capture is simply a new entry.
+const CACHE_DIR = process.env.CACHE_DIR || path.join(os.tmpdir(), 'tweettopdf-cache');
+const CACHE_TTL_MS = Number(process.env.CACHE_TTL_MS) || 24 * 60 * 60 * 1000;
+// 0 turns the cache off
+const CACHE_MAX_BYTES = process.env.CACHE_MAX_BYTES ? Number(process.env.CACHE_MAX_BYTES) : 500 * 1024 * 1024;
+
+const ENTRY_NAME_PATTERN = /^[\w.-]+$/;
+
+/** Hex SHA-256 of a value's JSON, for naming entries after their inputs */
+export function cacheDigest(value: unknown): string {
+  return createHash('sha256').update(typeof value === 'string' ? value : JSON.stringify(value)).digest('hex');
+}
+
+function entryPath(name: string): string {
+  if (!ENTRY_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid cache entry name: ${name}`);
+  }
+  return path.join(CACHE_DIR, name);
+}
+
+/** The entry's contents, or null when it's missing or older than the TTL */
+export async function readCache(name: string): Promise<Buffer | null> {
+  if (CACHE_MAX_BYTES <= 0) return null;
+
+  const filePath = entryPath(name);
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat) return null;
+  if (stat.mtimeMs < Date.now() - CACHE_TTL_MS) {
+    await fs.unlink(filePath).catch(() => {});
+    return null;
+  }
+
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores an entry, then trims the cache back under its size limit. A write
+ * that fails is logged and otherwise ignored; the cache is only ever a shortcut.
+ */
+export async function writeCache(name: string, body: Buffer): Promise<void> {
+  if (CACHE_MAX_BYTES <= 0 || body.length > CACHE_MAX_BYTES) return;
+
+  try {
+    await writeFileAtomic(entryPath(name), body);
+    await pruneCache();
+  } catch (error) {
+    console.warn(`Failed to write cache entry ${name}:`, error);
+  }
+}
+
+/** Reads an entry, or produces and stores it on a miss */
+export async function cached(name: string, produce: () => Promise<Buffer>): Promise<Buffer> {
+  const hit = await readCache(name);
+  if (hit) return hit;
+
+  const body = await produce();
+  await writeCache(name, body);
+  return body;
+}
+
+/** Drops expired entries, then the oldest ones until the cache fits its size limit */
+async function pruneCache(): Promise<void> {
+  let files: string[];
+  try {
+    files = await fs.readdir(CACHE_DIR);
+  } catch {
+    return;
+  }
+
+  // Leave other writers' in-flight files alone
+  const entries = (await Promise.all(files.filter(file => !file.endsWith('.tmp')).map(async file => {
+    const filePath = path.join(CACHE_DIR, file);
+    const stat = await fs.stat(filePath).catch(() => null);
+    return stat ? { filePath, size: stat.size, mtimeMs: stat.mtimeMs } : null;
+  }))).filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+  const cutoff = Date.now() - CACHE_TTL_MS;
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  for (const entry of entries.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+    if (entry.mtimeMs >= cutoff && total <= CACHE_MAX_BYTES) break;
+    await fs.unlink(entry.filePath).catch(() => {});
+    total -= entry.size;
+  }
+}
@@ -0,0 +1,55 @@
+import type { Browser } from 'puppeteer';
+import { ConversionError, withSession, type ConvertOptions } from './convert';
+import { scrapeCollection } from './scraper';
+import { collectionUrl, type Collection } from './urls';
+
+// Tweets collected when the request doesn't set a limit
+export const DEFAULT_COLLECTION_LIMIT = 20;
+
+/** Names the collection in messages, e.g. "your bookmarks" */
+function describeCollection(collection: Collection): string {
+  switch (collection.type) {
+    case 'bookmarks':
+      return 'your bookmarks';
+    case 'likes':
+      return `the likes of @${collection.handle}`;
+    case 'list':
+      return `List ${collection.listId}`;
+  }
+}
+
+/** File name stem for an export, e.g. `likes-jack` */
+export function collectionFileId(collection: Collection): string {
+  switch (collection.type) {
+    case 'bookmarks':
+      return 'bookmarks';
+    case 'likes':
+      return `likes-${collection.handle.toLowerCase()}`;
+    case 'list':
+      return `list-${collection.listId}`;
+  }
+}
+
+/**
+ * Scrolls a bookmarks, likes or List page and returns the status URLs of up
+ * to `limit` of its tweets, in the page's order, ready for `convertBatch`.
+ * Bookmarks and likes are private to their account, so they are only ever
+ * read with the caller's own cookies, never the server's stored accounts.
+ */
+export async function collectTweetUrls(collection: Collection, options: ConvertOptions, limit: number, browser?: Browser): Promise<string[]> {
+  if (collection.type !== 'list' && !options.authToken) {
+    throw new ConversionError('Bookmarks and likes are only visible to their own account. Please provide your auth_token cookie.');
+  }
+
+  const tweets = await withSession(
+    options,
+    new ConversionError('Lists require authentication. Please provide your auth_token cookie.'),
+    auth => scrapeCollection(collectionUrl(collection), auth, browser, { limit }),
+  );
+
+  if (tweets.length === 0) {
+    throw new ConversionError(`No tweets were found in ${describeCollection(collection)}.`);
+  }
+
+  return tweets.map(tweet => `https://x.com/${tweet.authorHandle.replace(/^@/, '') || 'i'}/status/${tweet.id}`);
+}
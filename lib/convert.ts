@@ -0,0 +1,398 @@
+import type { Browser } from 'puppeteer';
+import { cacheDigest, readCache, writeCache } from './cache';
+import { credentialStore } from './credentials';
+import { ContentUnavailableError, ConversionError } from './errors';
+import { recordSnapshot } from './history';
+import { applyEmbeddedMedia, embedMedia } from './media';
+import { scrapeArticle, scrapeThread, scrapeTweet } from './scraper';
+import { SessionError } from './session';
+import { fetchSyndicatedTweet } from './syndication';
+import { generateArticleHTML, generateThreadHTML, generateTweetHTML } from './templates';
+import { readThemeOptions, resolveTheme, type Theme, type ThemeOptions } from './themes';
+import type { ArticleData, AuthCookies, EmbeddedMedia, TweetData } from './types';
+import { extractArticleId, extractTweetId, isArticleUrl } from './urls';
+
+// Defined apart so the scrapers can raise them without importing this module
+export { ConversionError, ContentUnavailableError };
+
+export interface ConvertOptions extends AuthCookies {
+  thread?: boolean;
+  gifKeyframes?: number;
+  hideMetrics?: boolean;
+  /** Put a linked contents page in front of articles that have headings */
+  tableOfContents?: boolean;
+  theme?: ThemeOptions;
+  /** Capture again even when the content is cached */
+  refresh?: boolean;
+  /** Download images into data URIs (the default); off keeps their remote URLs */
+  inlineMedia?: boolean;
+}
+
+export type DocumentSource =
+  | { type: 'tweet'; tweet: TweetData }
+  | { type: 'thread'; tweets: TweetData[] }
+  | { type: 'article'; article: ArticleData };
+
+/**
+ * How the content was obtained: the public syndication endpoint (no cookies;
+ * of the metrics, only replies and likes) or an authenticated browser session
+ * (every count the tweet page shows).
+ */
+export type SourceMethod = 'syndication' | 'browser';
+
+export interface PreparedDocument {
+  id: string;
+  url: string;
+  capturedAt: string;
+  fileId: string;
+  title: string;
+  /** Handle of the tweet's or article's author */
+  author: string;
+  authorName: string;
+  /** One-line description for the PDF's document properties */
+  subject: string;
+  keywords: string[];
+  html: string;
+  source: DocumentSource;
+  media: EmbeddedMedia;
+  /** Selector strategy the content was extracted with, as `name@version` */
+  extractor: string | null;
+  sourceMethod: SourceMethod;
+  /** Theme the HTML was rendered with; its page layout applies to the PDF */
+  theme: Theme;
+  /** Whether the content came from the cache rather than a fresh capture */
+  cached: boolean;
+}
+
+/** What a capture yields before rendering; this is what the cache and history store */
+export type CapturedDocument = Omit<PreparedDocument, 'html' | 'theme' | 'cached'>;
+
+/**
+ * Picks the conversion options out of a request body, shared by every route
+ * that accepts a URL to convert.
+ */
+export function readConvertOptions(body: Record<string, unknown>): ConvertOptions {
+  return {
+    authToken: typeof body.authToken === 'string' ? body.authToken : undefined,
+    csrfToken: typeof body.csrfToken === 'string' ? body.csrfToken : undefined,
+    thread: Boolean(body.thread),
+    gifKeyframes: typeof body.gifKeyframes === 'number' ? body.gifKeyframes : undefined,
+    hideMetrics: Boolean(body.hideMetrics),
+    tableOfContents: Boolean(body.tableOfContents),
+    theme: readThemeOptions(body),
+    refresh: Boolean(body.refresh),
+  };
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+}
+
+function tweetTitle(tweet: TweetData): string {
+  return `${tweet.authorHandle}: ${truncate(tweet.text, 80) || 'Media tweet'}`;
+}
+
+/** The author's handle plus any hashtags and cashtags in the tweets */
+function tweetKeywords(tweets: TweetData[]): string[] {
+  const tags = tweets.flatMap(tweet =>
+    (tweet.segments || []).flatMap(segment => (segment.type === 'hashtag' || segment.type === 'cashtag' ? [segment.text] : []))
+  );
+  return Array.from(new Set([tweets[0].authorHandle, ...tags].filter(Boolean)));
+}
+
+/**
+ * Scrapes a tweet, thread or article URL and renders it to HTML ready for
+ * `generatePDF`, with every image embedded as a data URI unless `inlineMedia`
+ * is off. The URL is expected to have passed `isValidTwitterUrl`. Captures are
+ * cached by tweet or article ID and re-rendered with the requested theme;
+ * `refresh` skips the cache.
+ */
+export async function prepareDocument(url: string, options: ConvertOptions, browser?: Browser): Promise<PreparedDocument> {
+  const key = documentKey(url, options);
+  const cacheName = key && captureCacheName(key, options);
+  const cachedCapture = cacheName && !options.refresh ? await readCache(cacheName) : null;
+  const inline = options.inlineMedia !== false;
+
+  let capture: CapturedDocument;
+  if (cachedCapture) {
+    capture = JSON.parse(cachedCapture.toString('utf8'));
+    // Cached by a request that kept the remote URLs; download the images now
+    if (inline && !hasInlinedMedia(capture)) {
+      capture = { ...capture, media: await embedMedia(collectMediaUrls(capture.source), options, browser) };
+      if (cacheName && capture.media.failed.length === 0) {
+        await writeCache(cacheName, Buffer.from(JSON.stringify(capture)));
+      }
+    }
+  } else {
+    let doc: Omit<CapturedDocument, 'media'>;
+    try {
+      doc = await scrapeDocument(url, options, browser);
+    } catch (error) {
+      if (key && error instanceof ContentUnavailableError) {
+        await recordSnapshot(key, url, sessionScope(options), error);
+      }
+      throw error;
+    }
+    const media = inline ? await embedMedia(collectMediaUrls(doc.source), options, browser) : { dataUris: {}, failed: [] };
+    capture = { ...doc, media };
+    if (key) {
+      await recordSnapshot(key, url, sessionScope(options), capture);
+    }
+    // Missing images may only be a CDN hiccup; don't pin them for the whole TTL
+    if (cacheName && capture.media.failed.length === 0) {
+      await writeCache(cacheName, Buffer.from(JSON.stringify(capture)));
+    }
+  }
+
+  const theme = resolveTheme(options.theme);
+  const html = applyEmbeddedMedia(renderDocumentHTML(capture.source, options, theme), capture.media);
+  return { ...capture, html, theme, cached: Boolean(cachedCapture) };
+}
+
+/**
+ * The document a URL converts to, as `<kind>-<id>` (the same as its
+ * `fileId`). Captures are cached and recorded in the history under it.
+ */
+export function documentKey(url: string, options: ConvertOptions): string | null {
+  if (isArticleUrl(url)) {
+    const articleId = extractArticleId(url);
+    return articleId && `article-${articleId}`;
+  }
+  const tweetId = extractTweetId(url);
+  return tweetId && `${options.thread ? 'thread' : 'tweet'}-${tweetId}`;
+}
+
+/**
+ * Digest of the caller's own auth cookie, or null when the server's accounts
+ * (or none) are used. Content seen through a caller's cookies is only ever
+ * served back to the same cookies.
+ */
+export function sessionScope(options: AuthCookies): string | null {
+  return options.authToken ? cacheDigest(options.authToken) : null;
+}
+
+// Captures with failed images aren't cached, so images without data URIs were never downloaded
+function hasInlinedMedia(capture: CapturedDocument): boolean {
+  return Object.keys(capture.media.dataUris).length > 0 || !collectMediaUrls(capture.source).some(url => /^https?:\/\//.test(url));
+}
+
+/** Cache entry for a capture: its document key plus the options that change what gets scraped */
+function captureCacheName(key: string, options: ConvertOptions): string {
+  const variant = cacheDigest({
+    gifKeyframes: key.startsWith('tweet-') ? options.gifKeyframes || 0 : 0,
+    // Hidden metrics let a tweet come from the embed endpoint, which lacks some counts
+    hideMetrics: key.startsWith('tweet-') && Boolean(options.hideMetrics),
+    session: sessionScope(options),
+  });
+  return `${key}-${variant.slice(0, 16)}.json`;
+}
+
+export function renderDocumentHTML(source: DocumentSource, options: ConvertOptions, theme: Theme): string {
+  switch (source.type) {
+    case 'article':
+      return generateArticleHTML(source.article, { theme, tableOfContents: options.tableOfContents });
+    case 'thread':
+      return generateThreadHTML(source.tweets, { hideMetrics: options.hideMetrics, theme });
+    case 'tweet':
+      return generateTweetHTML(source.tweet, { hideMetrics: options.hideMetrics, theme });
+  }
+}
+
+/**
+ * Runs a scrape with the caller's own cookies when given, otherwise with the
+ * server's stored accounts in rotation, moving on to the next account when X
+ * rejects a session. Throws `missingAuth` when there is nothing to
+ * authenticate with.
+ */
+export async function withSession<T>(
+  options: ConvertOptions,
+  missingAuth: ConversionError,
+  scrape: (auth: AuthCookies) => Promise<T>,
+): Promise<T> {
+  if (options.authToken) {
+    try {
+      return await scrape({ authToken: options.authToken, csrfToken: options.csrfToken });
+    } catch (error) {
+      if (error instanceof SessionError) {
+        throw new ConversionError(`${error.message} Please copy a fresh auth_token cookie.`);
+      }
+      throw error;
+    }
+  }
+
+  const tried = new Set<string>();
+  let lastProblem: SessionError | null = null;
+
+  for (let account = await credentialStore.next(); account; account = await credentialStore.next(tried)) {
+    tried.add(account.name);
+    try {
+      const result = await scrape(account.auth);
+      credentialStore.markHealthy(account.name);
+      return result;
+    } catch (error) {
+      if (!(error instanceof SessionError)) {
+        throw error;
+      }
+      credentialStore.markProblem(account.name, error.problem, error.message);
+      lastProblem = error;
+    }
+  }
+
+  if (lastProblem) {
+    throw new ConversionError(`No stored account could be used (${lastProblem.message}) Please provide your auth_token cookie.`);
+  }
+  throw missingAuth;
+}
+
+async function scrapeDocument(url: string, options: ConvertOptions, browser?: Browser): Promise<Omit<CapturedDocument, 'media'>> {
+  const { authToken, thread } = options;
+  const capturedAt = new Date().toISOString();
+
+  if (isArticleUrl(url)) {
+    // Handle article
+    const articleId = extractArticleId(url);
+    if (!articleId) {
+      throw new ConversionError('Could not extract article ID from URL.');
+    }
+
+    // Articles require authentication
+    const articleData = await withSession(
+      options,
+      new ConversionError('Articles require authentication. Please provide at least the auth_token cookie.'),
+      auth => scrapeArticle(url, auth, browser),
+    );
+
+    if (!articleData.title && articleData.content.length === 0) {
+      throw new ContentUnavailableError('Could not extract article content. The article may be private or deleted.');
+    }
+
+    return {
+      id: articleId,
+      url,
+      capturedAt,
+      fileId: `article-${articleId}`,
+      title: articleData.title || `Article by ${articleData.authorHandle || 'unknown author'}`,
+      author: articleData.authorHandle,
+      authorName: articleData.authorName,
+      subject: `X article by ${articleData.authorHandle || 'unknown author'}, captured from ${url}`,
+      keywords: [articleData.authorHandle, 'article'].filter(Boolean),
+      source: { type: 'article', article: articleData },
+      extractor: articleData.extractor || null,
+      sourceMethod: 'browser',
+    };
+  }
+
+  // Handle tweet
+  const tweetId = extractTweetId(url);
+  if (!tweetId) {
+    throw new ConversionError('Could not extract tweet ID from URL.');
+  }
+
+  // Public tweets come from the embed endpoint without cookies. It has no
+  // repost, bookmark or view counts, so when there is a session to read them
+  // with and they're shown, the browser is used instead, as it is for threads,
+  // GIF keyframes, and tweets the endpoint won't serve.
+  const hasSession = Boolean(authToken) || await credentialStore.hasAccounts();
+  const needsBrowser = thread || (hasSession && (!options.hideMetrics || Boolean(options.gifKeyframes)));
+  // Only an answer from the endpoint says the tweet is gone; a failed request says nothing
+  let publiclyUnavailable = false;
+  if (!needsBrowser) {
+    const syndicated = await fetchSyndicatedTweet(tweetId).catch(error => {
+      console.warn(`Syndication fetch failed for ${tweetId}:`, error);
+      return undefined;
+    });
+    publiclyUnavailable = syndicated === null;
+    if (syndicated) {
+      return {
+        id: tweetId,
+        url,
+        capturedAt,
+        fileId: `tweet-${tweetId}`,
+        title: tweetTitle(syndicated),
+        author: syndicated.authorHandle,
+        authorName: syndicated.authorName,
+        subject: `Tweet by ${syndicated.authorHandle}, captured from ${url}`,
+        keywords: tweetKeywords([syndicated]),
+        source: { type: 'tweet', tweet: syndicated },
+        extractor: null,
+        sourceMethod: 'syndication',
+      };
+    }
+  }
+
+  if (thread) {
+    const tweets = await withSession(
+      options,
+      new ConversionError('Authentication required to unroll threads. Please provide your auth_token cookie.'),
+      auth => scrapeThread(url, auth, browser),
+    );
+    return {
+      id: tweetId,
+      url,
+      capturedAt,
+      fileId: `thread-${tweetId}`,
+      title: `Thread by ${tweets[0].authorHandle}: ${truncate(tweets[0].text, 80)}`,
+      author: tweets[0].authorHandle,
+      authorName: tweets[0].authorName,
+      subject: `Thread of ${tweets.length} tweets by ${tweets[0].authorHandle}, captured from ${url}`,
+      keywords: tweetKeywords(tweets),
+      source: { type: 'thread', tweets },
+      extractor: tweets[0].extractor || null,
+      sourceMethod: 'browser',
+    };
+  }
+
+  const tweetData = await withSession(
+    options,
+    new (publiclyUnavailable ? ContentUnavailableError : ConversionError)(
+      'This tweet is not publicly available. It may be private or deleted; provide your auth_token cookie to fetch it with your session.',
+    ),
+    auth => scrapeTweet(url, auth, browser, { gifKeyframes: options.gifKeyframes }),
+  );
+
+  if (!tweetData.text && tweetData.images.length === 0 && !tweetData.videos?.length && !tweetData.quotedTweet) {
+    throw new ContentUnavailableError('Could not extract tweet content. The tweet may be private or deleted.');
+  }
+
+  return {
+    id: tweetId,
+    url,
+    capturedAt,
+    fileId: `tweet-${tweetId}`,
+    title: tweetTitle(tweetData),
+    author: tweetData.authorHandle,
+    authorName: tweetData.authorName,
+    subject: `Tweet by ${tweetData.authorHandle}, captured from ${url}`,
+    keywords: tweetKeywords([tweetData]),
+    source: { type: 'tweet', tweet: tweetData },
+    extractor: tweetData.extractor || null,
+    sourceMethod: 'browser',
+  };
+}
+
+export function collectMediaUrls(source: DocumentSource): string[] {
+  const tweetUrls = (tweet: TweetData | null | undefined): string[] =>
+    tweet
+      ? [
+        tweet.authorAvatar || '',
+        ...(tweet.segments || []).flatMap(segment => (segment.type === 'emoji' ? [segment.imageUrl] : [])),
+        ...tweet.images,
+        ...(tweet.videos || []).map(video => video.posterUrl),
+        ...tweetUrls(tweet.quotedTweet),
+        ...tweetUrls(tweet.parentTweet),
+      ]
+      : [];
+
+  switch (source.type) {
+    case 'article':
+      return [
+        source.article.authorAvatar || '',
+        ...source.article.content.flatMap(block => (block.type === 'image' ? [block.url] : [])),
+      ];
+    case 'thread':
+      return source.tweets.flatMap(tweetUrls);
+    case 'tweet':
+      return tweetUrls(source.tweet);
+  }
+}
@@ -0,0 +1,210 @@
+import { createDecipheriv, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import { setupPage, withPage } from './browser';
+import { detectSessionProblem, type SessionProblem } from './session';
+import type { AuthCookies } from './types';
+
+// Encrypted account list, either as a file (CREDENTIALS_FILE) or inline
+// (CREDENTIALS_ENCRYPTED), decrypted with CREDENTIALS_KEY. Create one with
+// `npm run credentials:encrypt`.
+const CREDENTIALS_FILE = process.env.CREDENTIALS_FILE || '';
+const CREDENTIALS_ENCRYPTED = process.env.CREDENTIALS_ENCRYPTED || '';
+const CREDENTIALS_KEY = process.env.CREDENTIALS_KEY || '';
+
+// Key derivation salt; changing it invalidates every encrypted credentials file
+const KEY_SALT = 'tweettopdf-credentials-v1';
+
+// How long a rate-limited account sits out before it's tried again
+const RATE_LIMIT_COOLDOWN_MS = 15 * 60 * 1000;
+
+export type CredentialStatus = 'unknown' | 'healthy' | SessionProblem;
+
+interface StoredAccount {
+  name: string;
+  authToken: string;
+  csrfToken?: string;
+}
+
+interface EncryptedCredentials {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface AccountStatus {
+  name: string;
+  status: CredentialStatus;
+  lastUsedAt: string | null;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+  /** When a rate-limited account becomes eligible again */
+  availableAt: string | null;
+}
+
+export interface CredentialStoreStatus {
+  configured: boolean;
+  /** Why the configured credentials couldn't be loaded, if they couldn't */
+  error: string | null;
+  accounts: AccountStatus[];
+}
+
+export interface LeasedAccount {
+  name: string;
+  auth: AuthCookies;
+}
+
+function decryptCredentials(payload: EncryptedCredentials, passphrase: string): StoredAccount[] {
+  if (payload.version !== 1) {
+    throw new Error(`Unsupported credentials file version ${payload.version}`);
+  }
+
+  const key = scryptSync(passphrase, KEY_SALT, 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]).toString('utf8');
+
+  const { accounts } = JSON.parse(plaintext) as { accounts?: StoredAccount[] };
+  if (!Array.isArray(accounts)) {
+    throw new Error('Credentials file has no accounts list');
+  }
+  return accounts.filter(account => account.name && account.authToken);
+}
+
+/**
+ * Named X accounts available to the server, handed out round-robin. Health is
+ * tracked in memory from what the scrapers see: expired and locked accounts
+ * are skipped until a successful check, rate-limited ones sit out a cooldown.
+ * Tokens never leave this module except through `next()`.
+ */
+class CredentialStore {
+  private accounts: StoredAccount[] | null = null;
+  private loadError: string | null = null;
+  private states = new Map<string, AccountStatus>();
+  private cursor = 0;
+
+  get configured(): boolean {
+    return Boolean(CREDENTIALS_FILE || CREDENTIALS_ENCRYPTED);
+  }
+
+  private async load(): Promise<StoredAccount[]> {
+    if (this.accounts) return this.accounts;
+    if (!this.configured) return [];
+
+    try {
+      if (!CREDENTIALS_KEY) {
+        throw new Error('CREDENTIALS_KEY is not set');
+      }
+      const raw = CREDENTIALS_FILE ? await fs.readFile(CREDENTIALS_FILE, 'utf8') : CREDENTIALS_ENCRYPTED;
+      this.accounts = decryptCredentials(JSON.parse(raw), CREDENTIALS_KEY);
+      this.loadError = null;
+    } catch (error) {
+      // Keep retrying on later calls, so fixing the file doesn't need a restart
+      this.loadError = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Failed to load stored credentials:', error);
+      return [];
+    }
+
+    for (const account of this.accounts) {
+      this.states.set(account.name, {
+        name: account.name,
+        status: 'unknown',
+        lastUsedAt: null,
+        lastCheckedAt: null,
+        lastError: null,
+        availableAt: null,
+      });
+    }
+    return this.accounts;
+  }
+
+  async hasAccounts(): Promise<boolean> {
+    return (await this.load()).length > 0;
+  }
+
+  private isAvailable(name: string): boolean {
+    const state = this.states.get(name);
+    if (!state) return false;
+    if (state.status === 'expired' || state.status === 'locked') return false;
+    return !state.availableAt || Date.parse(state.availableAt) <= Date.now();
+  }
+
+  /**
+   * The next usable account after the last one handed out, skipping any in
+   * `exclude` (already tried for the current request).
+   */
+  async next(exclude: Set<string> = new Set()): Promise<LeasedAccount | null> {
+    const accounts = await this.load();
+
+    for (let i = 0; i < accounts.length; i++) {
+      const account = accounts[(this.cursor + i) % accounts.length];
+      if (exclude.has(account.name) || !this.isAvailable(account.name)) continue;
+
+      this.cursor = (this.cursor + i + 1) % accounts.length;
+      this.states.get(account.name)!.lastUsedAt = new Date().toISOString();
+      return { name: account.name, auth: { authToken: account.authToken, csrfToken: account.csrfToken } };
+    }
+
+    return null;
+  }
+
+  markHealthy(name: string): void {
+    const state = this.states.get(name);
+    if (!state) return;
+    state.status = 'healthy';
+    state.lastCheckedAt = new Date().toISOString();
+    state.lastError = null;
+    state.availableAt = null;
+  }
+
+  markProblem(name: string, problem: SessionProblem, message: string): void {
+    const state = this.states.get(name);
+    if (!state) return;
+    console.warn(`Stored account ${name} is ${problem}: ${message}`);
+    state.status = problem;
+    state.lastCheckedAt = new Date().toISOString();
+    state.lastError = message;
+    state.availableAt = problem === 'rate-limited' ? new Date(Date.now() + RATE_LIMIT_COOLDOWN_MS).toISOString() : null;
+  }
+
+  /**
+   * Loads each account's home timeline and records whether X still accepts
+   * its session. Expired and locked accounts get a fresh chance here.
+   */
+  async checkAll(): Promise<void> {
+    const accounts = await this.load();
+
+    for (const account of accounts) {
+      try {
+        const problem = await withPage(undefined, async (page) => {
+          await setupPage(page, { authToken: account.authToken, csrfToken: account.csrfToken });
+          await page.goto('https://x.com/home', { waitUntil: 'networkidle2', timeout: 30000 });
+          return detectSessionProblem(page);
+        });
+        if (problem) {
+          this.markProblem(account.name, problem.problem, problem.message);
+        } else {
+          this.markHealthy(account.name);
+        }
+      } catch (error) {
+        // Network trouble says nothing about the session; leave the status alone
+        const state = this.states.get(account.name)!;
+        state.lastCheckedAt = new Date().toISOString();
+        state.lastError = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+  }
+
+  async status(): Promise<CredentialStoreStatus> {
+    const accounts = await this.load();
+    return {
+      configured: this.configured,
+      error: this.loadError,
+      accounts: accounts.map(account => ({ ...this.states.get(account.name)! })),
+    };
+  }
+}
+
+// Kept on globalThis so dev-mode hot reloads don't forget account health
+const globalForCredentials = globalThis as unknown as { credentialStore?: CredentialStore };
+export const credentialStore = globalForCredentials.credentialStore ?? (globalForCredentials.credentialStore = new CredentialStore());
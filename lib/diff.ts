@@ -0,0 +1,215 @@
+import { PDFDocument } from 'pdf-lib';
+import type { Browser } from 'puppeteer';
+import { renderDocumentHTML, type DocumentSource } from './convert';
+import type { Snapshot } from './history';
+import { applyEmbeddedMedia } from './media';
+import { generatePDF } from './pdf';
+import { generateDiffHTML, type CaptureDiff } from './templates';
+import { inlineText } from './text';
+import type { Theme } from './themes';
+import type { TweetData } from './types';
+
+export type DiffChange = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  change: DiffChange;
+  text: string;
+}
+
+/**
+ * One line of a diff. A `changed` line pairs a removed line with the added
+ * line that replaced it, with the edit marked word by word in `parts`.
+ */
+export interface DiffLine {
+  change: DiffChange | 'changed';
+  parts: DiffPart[];
+}
+
+/** Longest-common-subsequence diff of two token lists, in order */
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  // Only the differing middle needs the quadratic table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start && end < after.length - start
+    && before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) end++;
+
+  const a = before.slice(start, before.length - end);
+  const b = after.slice(start, after.length - end);
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = before.slice(0, start).map(text => ({ change: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push({ change: 'same', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      parts.push({ change: 'removed', text: a[i++] });
+    } else {
+      parts.push({ change: 'added', text: b[j++] });
+    }
+  }
+  return parts.concat(before.slice(before.length - end).map(text => ({ change: 'same', text })));
+}
+
+/** Merges neighbouring parts with the same change, so runs render as one span */
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  return parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && last.change === part.change) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
+
+/** Word-level diff of two strings; whitespace is kept so the parts rejoin exactly */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  return mergeParts(diffTokens(tokenize(before), tokenize(after)));
+}
+
+/**
+ * Line-level diff. Runs of removed lines followed by added lines are paired
+ * up as `changed` lines, so a reworded sentence shows as one line with the
+ * edited words marked rather than as a deletion and an insertion.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  const removed: string[] = [];
+  const added: string[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let index = 0; index < paired; index++) {
+      lines.push({ change: 'changed', parts: diffWords(removed[index], added[index]) });
+    }
+    removed.slice(paired).forEach(text => lines.push({ change: 'removed', parts: [{ change: 'removed', text }] }));
+    added.slice(paired).forEach(text => lines.push({ change: 'added', parts: [{ change: 'added', text }] }));
+    removed.length = 0;
+    added.length = 0;
+  };
+
+  for (const part of diffTokens(before, after)) {
+    if (part.change === 'same') {
+      flush();
+      lines.push({ change: 'same', parts: [part] });
+    } else {
+      (part.change === 'removed' ? removed : added).push(part.text);
+    }
+  }
+  flush();
+
+  return lines;
+}
+
+// Media URLs differ in size parameters between scrapers; compare the files themselves
+function mediaLine(label: string, url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${label}: ${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return `${label}: ${url}`;
+  }
+}
+
+function tweetLines(tweet: TweetData): string[] {
+  return [
+    `${tweet.authorName} ${tweet.authorHandle}`,
+    ...tweet.text.split('\n').filter(line => line.trim()),
+    ...tweet.images.map(url => mediaLine('Image', url)),
+    ...(tweet.videos || []).map(video => mediaLine(video.kind === 'gif' ? 'GIF' : 'Video', video.url || video.posterUrl)),
+    ...(tweet.quotedTweet ? tweetLines(tweet.quotedTweet).map(line => `> ${line}`) : []),
+  ];
+}
+
+/** The text and media of a capture as lines, the unit the diff compares */
+export function snapshotLines(source: DocumentSource): string[] {
+  switch (source.type) {
+    case 'tweet':
+      return tweetLines(source.tweet);
+    case 'thread':
+      return source.tweets.flatMap((tweet, index) => [`${index + 1}/${source.tweets.length}`, ...tweetLines(tweet)]);
+    case 'article': {
+      const { article } = source;
+      return [
+        article.title,
+        `${article.authorName} ${article.authorHandle}`,
+        ...article.content.flatMap(block => {
+          switch (block.type) {
+            case 'heading':
+            case 'paragraph':
+            case 'blockquote':
+              return inlineText(block.html).split('\n');
+            case 'list':
+              return block.items.map(item => `• ${inlineText(item)}`);
+            case 'code':
+              return block.code.split('\n');
+            case 'image':
+              return [mediaLine('Image', block.url)];
+            case 'tweet':
+              return [`Embedded tweet: ${block.url}`];
+            case 'divider':
+              return [];
+          }
+        }),
+      ].filter(line => line.trim());
+    }
+  }
+}
+
+/** Compares two captures of the same document; an unavailable capture has no lines */
+export function compareSnapshots(before: Snapshot, after: Snapshot): CaptureDiff {
+  const lines = (snapshot: Snapshot) => (snapshot.document ? snapshotLines(snapshot.document.source) : []);
+  return {
+    url: after.url,
+    before: { capturedAt: before.capturedAt, unavailable: before.document ? null : before.error || 'Unavailable' },
+    after: { capturedAt: after.capturedAt, unavailable: after.document ? null : after.error || 'Unavailable' },
+    lines: diffLines(lines(before), lines(after)),
+  };
+}
+
+/**
+ * Renders the comparison of two captures: the change summary, then each
+ * available capture as it was rendered at the time, so the visual
+ * difference can be read side by side.
+ */
+export async function generateDiffPDF(before: Snapshot, after: Snapshot, theme: Theme, browser?: Browser): Promise<Buffer> {
+  const latest = after.document || before.document;
+  const summary = await generatePDF(generateDiffHTML(compareSnapshots(before, after), { theme }), browser, theme, {
+    url: after.url,
+    author: latest?.author || '',
+    authorName: latest?.authorName || '',
+    title: `Changes to ${latest?.title || after.url}`,
+    subject: `Comparison of captures of ${after.url} from ${before.capturedAt} and ${after.capturedAt}`,
+    keywords: latest?.keywords || [],
+    capturedAt: after.capturedAt,
+  });
+
+  const renders = await Promise.all([before, after].flatMap(({ document }) => (document
+    ? [generatePDF(applyEmbeddedMedia(renderDocumentHTML(document.source, {}, theme), document.media), browser, theme, document)]
+    : [])));
+
+  // Keep the summary's document properties rather than pdf-lib's
+  const merged = await PDFDocument.load(summary, { updateMetadata: false });
+  for (const render of renders) {
+    const source = await PDFDocument.load(render);
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+  }
+  return Buffer.from(await merged.save());
+}
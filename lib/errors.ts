@@ -0,0 +1,21 @@
+/**
+ * A failure caused by the request itself (bad URL, missing auth, unreadable
+ * content) rather than by the server. Routes surface these as 400s.
+ */
+export class ConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversionError';
+  }
+}
+
+/**
+ * X no longer serves the content: it was deleted, made private, or its
+ * account was suspended. Recorded in the capture history as such.
+ */
+export class ContentUnavailableError extends ConversionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentUnavailableError';
+  }
+}
@@ -0,0 +1,636 @@
+import type { ArticleBlock, TextSegment, TweetData, TweetMetrics, TweetVideo } from './types';
+
+// These functions run inside the page through `page.evaluate`, which ships
+// their source text to the browser. Each must stay self-contained: no imports
+// or module-level references at runtime (type annotations are fine). Keeping
+// them out of the scrapers lets the tests run them against saved HTML snapshots.
+// Selectors come in as an argument, from the versioned sets in `./extractors`.
+
+export interface TweetSelectors {
+  /** One tweet on a status page or timeline */
+  tweet: string;
+  avatar: string;
+  /** Block holding the display name and handle */
+  userName: string;
+  text: string;
+  photo: string;
+  videoPlayer: string;
+  /** Action bar whose aria-label spells out exact engagement counts */
+  actionBar: string;
+  analyticsLink: string;
+  /** Embedded quote, told apart from other link cards by carrying a `userName` block */
+  quoteCard: string;
+  /** Line above a timeline entry, such as "jack reposted" or "Pinned" */
+  socialContext: string;
+  /** Action buttons, read when the action bar has no count for that metric */
+  buttons: Record<'replies' | 'reposts' | 'likes' | 'bookmarks', string>;
+}
+
+export interface ThreadEntry extends TweetData {
+  id: string;
+  /** Pinned to the top of a profile timeline, out of date order */
+  pinned?: boolean;
+}
+
+/**
+ * In-page helpers shared by the tweet extractors. Page functions can't reach
+ * module code, so the scrapers build these in the page with
+ * `page.evaluateHandle(createTweetParsers)` and pass the handle along.
+ */
+export interface TweetParsers {
+  /** Photos, videos and GIFs in `root`, skipping elements `own` rejects (those of a quote card) */
+  media: (root: Element, own: (el: Element) => boolean, selectors: TweetSelectors) => Pick<TweetData, 'images' | 'videos'>;
+  /** A tweet's text element as segments: plain text, expanded links, mentions, tags and emoji */
+  segments: (textEl: Element) => TextSegment[];
+}
+
+export interface ArticleSelectors {
+  /** Tried in order; the first with text wins */
+  title: string[];
+  /** Tried in order; the first present element is parsed as the article body */
+  container: string[];
+  avatar: string;
+  embeddedTweet: string;
+  userName: string;
+  tweetText: string;
+}
+
+/** Builds the `TweetParsers`; run it in the page with `page.evaluateHandle` */
+export function createTweetParsers(): TweetParsers {
+  return {
+    media: (root, own, selectors) => {
+      const images: string[] = [];
+      for (const img of Array.from(root.querySelectorAll(selectors.photo)).filter(own)) {
+        const src = (img as HTMLImageElement).src;
+        if (src && !images.includes(src)) {
+          images.push(src);
+        }
+      }
+
+      // The player shows a poster frame and, for videos, a duration label
+      const timeEl = Array.from(root.querySelectorAll('time')).find(own);
+      const permalink = (timeEl?.closest('a') as HTMLAnchorElement | null)?.href || '';
+      const videos: TweetVideo[] = Array.from(root.querySelectorAll(selectors.videoPlayer))
+        .filter(own)
+        .map((player, index) => {
+          const video = player.querySelector('video');
+          const playerText = (player as HTMLElement).innerText || '';
+          const posterUrl = video?.getAttribute('poster') || (player.querySelector('img') as HTMLImageElement | null)?.src || '';
+          const src = video?.getAttribute('src') || video?.querySelector('source')?.getAttribute('src') || '';
+          const isGif = posterUrl.includes('tweet_video_thumb') || /\bGIF\b/.test(playerText);
+          return {
+            kind: isGif ? 'gif' : 'video',
+            posterUrl,
+            duration: isGif ? null : playerText.match(/\b\d{1,2}:\d{2}(?::\d{2})?\b/)?.[0] || null,
+            url: permalink ? `${permalink}/video/${index + 1}` : src.startsWith('http') ? src : '',
+          };
+        });
+
+      return { images, videos };
+    },
+
+    segments: (textEl) => {
+      const segments: TextSegment[] = [];
+      const pushText = (value: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === 'text') {
+          last.text += value;
+        } else if (value) {
+          segments.push({ type: 'text', text: value });
+        }
+      };
+      const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          pushText(node.textContent || '');
+          return;
+        }
+        if (!(node instanceof HTMLElement)) return;
+
+        if (node.tagName === 'IMG') {
+          const img = node as HTMLImageElement;
+          if (img.alt) segments.push({ type: 'emoji', text: img.alt, imageUrl: img.src });
+          return;
+        }
+        if (node.tagName === 'BR') {
+          pushText('\n');
+          return;
+        }
+        if (node.tagName === 'A') {
+          const anchor = node as HTMLAnchorElement;
+          const label = anchor.textContent?.trim() || '';
+          if (label.startsWith('@')) {
+            segments.push({ type: 'mention', text: label, url: anchor.href });
+          } else if (label.startsWith('#')) {
+            segments.push({ type: 'hashtag', text: label, url: anchor.href });
+          } else if (label.startsWith('$')) {
+            segments.push({ type: 'cashtag', text: label, url: anchor.href });
+          } else {
+            // t.co anchors hold the full destination in their text, partly hidden and ending in an ellipsis
+            const expanded = label.replace(/…$/, '');
+            const url = /^https?:\/\//.test(expanded) ? expanded : anchor.href;
+            segments.push({ type: 'link', text: url, url });
+          }
+          return;
+        }
+        node.childNodes.forEach(walk);
+      };
+      walk(textEl);
+      return segments;
+    },
+  };
+}
+
+/**
+ * Extracts the tweet with ID `focalId` from a status page, along with its
+ * quoted tweet and the parent it replies to. Tags the tweet's own video
+ * players with `data-capture-index` for keyframe capture.
+ */
+export function extractTweetPage(focalId: string | null, selectors: TweetSelectors, parsers: TweetParsers): TweetData | null {
+  // Extracts one tweet from `root`, ignoring anything inside `exclude` (an embedded quote card)
+  const extract = (root: Element, exclude: Element | null) => {
+    const own = (el: Element) => !exclude || !exclude.contains(el);
+
+    // Get author info
+    let authorName = '';
+    let authorHandle = '';
+    let authorAvatar = '';
+
+    const avatarImg = Array.from(root.querySelectorAll(selectors.avatar)).find(own);
+    if (avatarImg) {
+      authorAvatar = (avatarImg as HTMLImageElement).src.replace('_normal', '_400x400');
+    }
+
+    // Get author name and handle from the tweet
+    const userLinks = root.querySelectorAll('a[href*="/"]');
+    for (const link of Array.from(userLinks).filter(own)) {
+      const href = (link as HTMLAnchorElement).href;
+      if (href.match(/x\.com\/\w+$/) && !href.includes('/i/')) {
+        const text = link.textContent?.trim() || '';
+        if (text.startsWith('@')) {
+          authorHandle = text;
+        } else if (text && !authorName && text.length < 50) {
+          authorName = text;
+        }
+        if (authorName && authorHandle) break;
+      }
+    }
+
+    // Quote cards render the author as plain text rather than profile links
+    if (!authorName || !authorHandle) {
+      const userNameEl = Array.from(root.querySelectorAll(selectors.userName)).find(own);
+      const parts = ((userNameEl as HTMLElement | undefined)?.innerText || '')
+        .split('\n')
+        .map(part => part.trim())
+        .filter(Boolean);
+      authorHandle = authorHandle || parts.find(part => part.startsWith('@')) || '';
+      authorName = authorName || parts.find(part => !part.startsWith('@') && part !== '·') || '';
+    }
+
+    // Get tweet text, keeping its inline structure: expanded links, mentions, tags and emoji
+    const tweetTextEl = Array.from(root.querySelectorAll(selectors.text)).find(own);
+    const segments = tweetTextEl ? parsers.segments(tweetTextEl) : [];
+    const text = segments.map(segment => segment.text).join('').trim();
+
+    // Get date
+    const timeEl = Array.from(root.querySelectorAll('time')).find(own);
+    const date = timeEl?.getAttribute('datetime') || '';
+
+    // Get photos, videos and GIFs
+    const { images, videos } = parsers.media(root, own, selectors);
+
+    // Get engagement counts. The action bar's aria-label has exact numbers
+    // ("12 replies, 3,456 likes, ..."); the visible labels are abbreviated ("3.4K")
+    const metrics: TweetMetrics = { replies: null, reposts: null, likes: null, bookmarks: null, views: null };
+    const parseCount = (value: string) => {
+      const match = value.replace(/,/g, '').match(/([\d.]+)\s*([KMB])?/i);
+      if (!match) return null;
+      const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[(match[2] || '').toUpperCase() as 'K' | 'M' | 'B'] || 1;
+      return Math.round(parseFloat(match[1]) * multiplier);
+    };
+    const metricKeys: Record<string, keyof TweetMetrics> = {
+      repl: 'replies',
+      repost: 'reposts',
+      retweet: 'reposts',
+      like: 'likes',
+      bookmark: 'bookmarks',
+      view: 'views',
+    };
+    const actionBar = Array.from(root.querySelectorAll(selectors.actionBar)).find(own);
+    const ariaLabel = actionBar?.getAttribute('aria-label') || '';
+    for (const match of Array.from(ariaLabel.matchAll(/([\d,]+)\s+(repl|repost|retweet|like|bookmark|view)\w*/gi))) {
+      metrics[metricKeys[match[2].toLowerCase()]] = parseCount(match[1]);
+    }
+    for (const key of Object.keys(selectors.buttons) as (keyof TweetSelectors['buttons'])[]) {
+      if (metrics[key] !== null) continue;
+      const button = Array.from(root.querySelectorAll(selectors.buttons[key])).find(own);
+      const label = button?.getAttribute('aria-label') || button?.textContent || '';
+      if (/\d/.test(label)) metrics[key] = parseCount(label);
+    }
+    if (metrics.views === null) {
+      const analytics = Array.from(root.querySelectorAll(selectors.analyticsLink)).find(own);
+      const label = analytics?.getAttribute('aria-label') || analytics?.textContent || '';
+      if (/\d/.test(label)) metrics.views = parseCount(label);
+    }
+
+    return {
+      authorName,
+      authorHandle,
+      authorAvatar,
+      text,
+      segments,
+      date,
+      images,
+      videos,
+      metrics,
+    };
+  };
+
+  // An embedded quote is a nested link card carrying its own author block
+  const findQuoteCard = (article: Element) =>
+    Array.from(article.querySelectorAll(selectors.quoteCard))
+      .find(el => el.querySelector(selectors.userName)) || null;
+
+  // On a reply's status page the parent tweets come first, so locate the focal tweet by its ID
+  const articles = Array.from(document.querySelectorAll(selectors.tweet));
+  let focalIndex = articles.findIndex(el =>
+    Array.from(el.querySelectorAll('a[href*="/status/"]'))
+      .some(link => link.getAttribute('href')?.match(/status\/(\d+)$/)?.[1] === focalId)
+  );
+  if (focalIndex === -1) focalIndex = 0;
+
+  const article = articles[focalIndex];
+  if (!article) return null;
+
+  const quoteCard = findQuoteCard(article);
+
+  // Tag the focal tweet's own players so GIF keyframes can be captured from them afterwards
+  Array.from(article.querySelectorAll(selectors.videoPlayer))
+    .filter(el => !quoteCard || !quoteCard.contains(el))
+    .forEach((player, index) => player.setAttribute('data-capture-index', String(index)));
+
+  const tweet: TweetData = {
+    ...extract(article, quoteCard),
+    quotedTweet: quoteCard ? extract(quoteCard, null) : null,
+    parentTweet: null,
+    replyingTo: [],
+  };
+
+  if (focalIndex > 0) {
+    const parent = articles[focalIndex - 1];
+    const parentQuote = findQuoteCard(parent);
+    tweet.parentTweet = {
+      ...extract(parent, parentQuote),
+      quotedTweet: parentQuote ? extract(parentQuote, null) : null,
+    };
+  }
+
+  // "Replying to @a and @b" context; the innermost matching div holds just that line
+  const replyContext = Array.from(article.querySelectorAll('div'))
+    .filter(el => el.textContent?.trim().startsWith('Replying to'))
+    .pop();
+  if (replyContext) {
+    const handles = replyContext.textContent?.match(/@\w+/g) || [];
+    tweet.replyingTo = Array.from(new Set(handles));
+  } else if (tweet.parentTweet?.authorHandle) {
+    tweet.replyingTo = [tweet.parentTweet.authorHandle];
+  }
+
+  return tweet;
+}
+
+/**
+ * The notice X shows in place of a post it won't serve (deleted, protected,
+ * or from a suspended account), or null when the page shows no such notice.
+ */
+export function extractUnavailableNotice(): string | null {
+  const errorDetail = document.querySelector('[data-testid="error-detail"]');
+  if (errorDetail?.textContent?.trim()) {
+    return errorDetail.textContent.trim();
+  }
+
+  const notice = (document.body?.innerText || '').match(
+    /(This (?:Post|post|Tweet|tweet) (?:is unavailable|was deleted|is from a suspended account)[^.\n]*|These (?:posts|Posts|Tweets) are protected|Hmm\.\.\.this page doesn.t exist)/,
+  );
+  return notice ? notice[1] : null;
+}
+
+/**
+ * Extracts every tweet currently rendered in a conversation or profile
+ * timeline, keyed by status ID. Lighter than `extractTweetPage`: no quotes or metrics.
+ */
+export function extractTimelineTweets(selectors: TweetSelectors, parsers: TweetParsers): ThreadEntry[] {
+  const articles = document.querySelectorAll(selectors.tweet);
+  const results: ThreadEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const article of Array.from(articles)) {
+    // Status ID comes from the permalink wrapping the timestamp
+    const permalink = article.querySelector('time')?.closest('a');
+    const idMatch = permalink?.getAttribute('href')?.match(/status\/(\d+)/);
+    if (!idMatch || seen.has(idMatch[1])) continue;
+    seen.add(idMatch[1]);
+
+    // A repost's context line links to the account that reposted it; a pinned tweet's links nowhere
+    const socialContext = article.querySelector(selectors.socialContext);
+    const contextLink = socialContext?.closest('a') || socialContext?.querySelector('a') || null;
+    const repostedBy = contextLink?.getAttribute('href')?.match(/(?:^|x\.com)\/(\w+)$/)?.[1];
+
+    let authorName = '';
+    let authorHandle = '';
+    let authorAvatar = '';
+
+    const avatarImg = article.querySelector(selectors.avatar);
+    if (avatarImg) {
+      authorAvatar = (avatarImg as HTMLImageElement).src.replace('_normal', '_400x400');
+    }
+
+    const userLinks = article.querySelectorAll('a[href*="/"]');
+    for (const link of Array.from(userLinks)) {
+      const href = (link as HTMLAnchorElement).href;
+      if (link === contextLink) continue;
+      if (href.match(/x\.com\/\w+$/) && !href.includes('/i/')) {
+        const text = link.textContent?.trim() || '';
+        if (text.startsWith('@')) {
+          authorHandle = text;
+        } else if (text && !authorName && text.length < 50) {
+          authorName = text;
+        }
+        if (authorName && authorHandle) break;
+      }
+    }
+
+    // A quote card's text and media belong to the quoted tweet, which timelines don't extract
+    const quoteCard = Array.from(article.querySelectorAll(selectors.quoteCard))
+      .find(el => el.querySelector(selectors.userName)) || null;
+    const own = (el: Element) => !quoteCard || !quoteCard.contains(el);
+
+    const tweetTextEl = Array.from(article.querySelectorAll(selectors.text)).find(own);
+    const segments = tweetTextEl ? parsers.segments(tweetTextEl) : [];
+    const text = segments.map(segment => segment.text).join('').trim();
+
+    const { images, videos } = parsers.media(article, own, selectors);
+
+    const date = article.querySelector('time')?.getAttribute('datetime') || '';
+
+    const replyContext = Array.from(article.querySelectorAll('div'))
+      .filter(el => el.textContent?.trim().startsWith('Replying to'))
+      .pop();
+
+    results.push({
+      id: idMatch[1],
+      authorName,
+      authorHandle,
+      authorAvatar,
+      text,
+      segments,
+      date,
+      images,
+      videos,
+      replyingTo: Array.from(new Set(replyContext?.textContent?.match(/@\w+/g) || [])),
+      ...(repostedBy && { repostedBy: `@${repostedBy}` }),
+      ...(socialContext && !contextLink && { pinned: true }),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Extracts an article's title, author and body, parsed into blocks in reading order.
+ */
+export function extractArticlePage(selectors: ArticleSelectors) {
+  // Get author info
+  let authorName = '';
+  let authorHandle = '';
+  let authorAvatar = '';
+
+  // Try to find author info from profile images
+  const avatarImg = document.querySelector(selectors.avatar);
+  if (avatarImg) {
+    authorAvatar = (avatarImg as HTMLImageElement).src.replace('_normal', '_400x400');
+  }
+
+  // Look for author name/handle
+  const userLinks = document.querySelectorAll('a[href*="/"]');
+  for (const link of Array.from(userLinks)) {
+    const href = (link as HTMLAnchorElement).href;
+    if (href.match(/x\.com\/\w+$/) && !href.includes('/i/')) {
+      const text = link.textContent?.trim() || '';
+      if (text.startsWith('@')) {
+        authorHandle = text;
+      } else if (text && !authorName && text.length < 50) {
+        authorName = text;
+      }
+      if (authorName && authorHandle) break;
+    }
+  }
+
+  // Get title - try multiple selectors
+  let title = '';
+  for (const sel of selectors.title) {
+    const el = document.querySelector(sel);
+    if (el && el.textContent?.trim()) {
+      title = el.textContent.trim();
+      break;
+    }
+  }
+
+  let container: Element | null = null;
+  for (const sel of selectors.container) {
+    container = document.querySelector(sel);
+    if (container) break;
+  }
+
+  const content: ArticleBlock[] = [];
+
+  const escape = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+  const isContentImage = (img: HTMLImageElement) => {
+    const src = img.src;
+    return !!src &&
+      (src.includes('pbs.twimg.com') || src.includes('ton.twimg.com')) &&
+      !src.includes('profile_images') &&
+      !src.includes('emoji') &&
+      !src.includes('icon') &&
+      !src.includes('svg');
+  };
+
+  // Rebuilds inline markup from the DOM, keeping only links and basic
+  // emphasis. Draft.js marks bold and italic runs with inline styles.
+  const inlineHtml = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escape(node.textContent || '');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as HTMLElement;
+    if (el.tagName === 'BR') return '<br>';
+    if (el.tagName === 'IMG') return escape((el as HTMLImageElement).alt || '');
+
+    const inner = Array.from(el.childNodes).map(inlineHtml).join('');
+    if (!inner) return '';
+
+    if (el.tagName === 'A') {
+      const href = (el as HTMLAnchorElement).href;
+      return /^https?:\/\//.test(href) ? `<a href="${escape(href)}">${inner}</a>` : inner;
+    }
+    if (el.tagName === 'CODE') return `<code>${inner}</code>`;
+    if (el.tagName === 'STRONG' || el.tagName === 'B' || parseInt(el.style.fontWeight) >= 600 || el.style.fontWeight === 'bold') {
+      return `<strong>${inner}</strong>`;
+    }
+    if (el.tagName === 'EM' || el.tagName === 'I' || el.style.fontStyle === 'italic') {
+      return `<em>${inner}</em>`;
+    }
+    return inner;
+  };
+
+  const blockHtml = (el: Element) => inlineHtml(el).trim().replace(/^(<br>)+|(<br>)+$/g, '');
+
+  const headingWords = ['one', 'two', 'three', 'four', 'five', 'six'];
+  const headingLevel = (el: Element): number | null => {
+    const tagMatch = el.tagName.match(/^H([1-6])$/);
+    if (tagMatch) return parseInt(tagMatch[1]);
+    const classMatch = el.className.toString().match(/header-(one|two|three|four|five|six)\b/);
+    return classMatch ? headingWords.indexOf(classMatch[1]) + 1 : null;
+  };
+
+  const blockSelector = [
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'ul', 'ol', 'blockquote', 'pre', 'hr', 'figure',
+    '[data-block="true"]', '[role="separator"]', selectors.embeddedTweet,
+  ].join(', ');
+
+  const skipPatterns = [
+    /^Subscribe$/i,
+    /^Click to Subscribe/i,
+    /^Click to Follow/i,
+    /^To view keyboard/i,
+    /^View keyboard/i,
+  ];
+
+  const pushImage = (img: HTMLImageElement, caption: string | null) => {
+    if (!isContentImage(img)) return;
+    if (content.some(block => block.type === 'image' && block.url === img.src)) return;
+    content.push({ type: 'image', url: img.src, caption });
+  };
+
+  // Classifies one element as a block, or descends into it when it's only
+  // a wrapper. Classified blocks are never descended into, so nested
+  // markup can't produce duplicate text.
+  const walk = (el: Element) => {
+    const className = el.className.toString();
+
+    if (el.matches(selectors.embeddedTweet)) {
+      const timeLink = el.querySelector('a[href*="/status/"] time')?.closest('a') || el.querySelector('a[href*="/status/"]');
+      const userName = el.querySelector(selectors.userName);
+      const handle = Array.from(userName?.querySelectorAll('span') || [])
+        .map(span => span.textContent?.trim() || '')
+        .find(text => text.startsWith('@')) || '';
+      const nameEl = userName?.querySelector('span');
+      content.push({
+        type: 'tweet',
+        url: (timeLink as HTMLAnchorElement | null)?.href || '',
+        authorName: nameEl?.textContent?.trim() || '',
+        authorHandle: handle,
+        text: el.querySelector(selectors.tweetText)?.textContent?.trim() || '',
+      });
+      return;
+    }
+
+    const level = headingLevel(el);
+    if (level) {
+      const html = blockHtml(el);
+      if (html && el.textContent?.trim() !== title) {
+        content.push({ type: 'heading', level, html });
+      }
+      return;
+    }
+
+    if (el.tagName === 'UL' || el.tagName === 'OL') {
+      const items = Array.from(el.children)
+        .filter(child => child.tagName === 'LI')
+        .map(blockHtml)
+        .filter(Boolean);
+      if (items.length > 0) {
+        content.push({ type: 'list', ordered: el.tagName === 'OL', items });
+      }
+      return;
+    }
+
+    if (el.tagName === 'BLOCKQUOTE' || className.includes('blockquote')) {
+      const html = blockHtml(el);
+      if (html) content.push({ type: 'blockquote', html });
+      return;
+    }
+
+    if (el.tagName === 'PRE' || className.includes('code-block')) {
+      const code = (el as HTMLElement).innerText.replace(/\n+$/, '');
+      const codeEl = el.querySelector('code');
+      const languageMatch = (codeEl?.className || className).match(/language-([\w+#-]+)/);
+      const language = el.getAttribute('data-language') || (languageMatch ? languageMatch[1] : null);
+      if (code.trim()) content.push({ type: 'code', language, code });
+      return;
+    }
+
+    if (el.tagName === 'HR' || el.getAttribute('role') === 'separator') {
+      if (content.length > 0 && content[content.length - 1].type !== 'divider') {
+        content.push({ type: 'divider' });
+      }
+      return;
+    }
+
+    if (el.tagName === 'IMG') {
+      pushImage(el as HTMLImageElement, null);
+      return;
+    }
+
+    const hasContentImage = Array.from(el.querySelectorAll('img')).some(isContentImage);
+    if (el.tagName === 'FIGURE' || (hasContentImage && !el.textContent?.trim())) {
+      const caption = el.querySelector('figcaption')?.textContent?.trim() || null;
+      el.querySelectorAll('img').forEach(img => pushImage(img, caption));
+      return;
+    }
+
+    if (!el.querySelector(blockSelector) && !hasContentImage) {
+      const text = el.textContent?.trim() || '';
+      if (!text || skipPatterns.some(pattern => pattern.test(text))) return;
+      if (text === title || text === authorName || text === authorHandle) return;
+      const html = blockHtml(el);
+      if (html) content.push({ type: 'paragraph', html });
+      return;
+    }
+
+    Array.from(el.children).forEach(walk);
+  };
+
+  if (container) {
+    // The cover image sits above the rich text body
+    const coverImage = Array.from(document.querySelectorAll('img')).find(img =>
+      isContentImage(img) && !!(img.compareDocumentPosition(container!) & Node.DOCUMENT_POSITION_FOLLOWING));
+    if (coverImage) {
+      pushImage(coverImage, null);
+    }
+
+    Array.from(container.children).forEach(walk);
+
+    while (content.length > 0 && content[content.length - 1].type === 'divider') {
+      content.pop();
+    }
+  }
+
+  // Get date if available
+  const timeEl = document.querySelector('time');
+  const date = timeEl?.getAttribute('datetime') || '';
+
+  return {
+    title,
+    authorName,
+    authorHandle,
+    authorAvatar,
+    content,
+    date,
+  };
+}
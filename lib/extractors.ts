@@ -0,0 +1,134 @@
+import type { ArticleSelectors, TweetSelectors } from './extract';
+
+/**
+ * A named, versioned set of selectors for one generation of X's markup. When
+ * X ships a markup change, add a strategy (or bump the version of the one it
+ * replaces) at the front of the list; older ones stay as fallbacks.
+ */
+export interface SelectorStrategy<S> {
+  name: string;
+  version: number;
+  selectors: S;
+}
+
+export interface StrategyResult<S, T> {
+  result: T;
+  /** Strategy that produced a usable result, null if none did */
+  strategy: SelectorStrategy<S> | null;
+}
+
+export const TWEET_STRATEGIES: SelectorStrategy<TweetSelectors>[] = [
+  {
+    name: 'testid',
+    version: 2,
+    selectors: {
+      tweet: 'article',
+      avatar: 'img[src*="profile_images"]',
+      userName: '[data-testid="User-Name"]',
+      text: '[data-testid="tweetText"]',
+      photo: 'img[src*="pbs.twimg.com/media"]',
+      videoPlayer: '[data-testid="videoPlayer"]',
+      actionBar: '[role="group"][aria-label]',
+      analyticsLink: 'a[href*="/analytics"]',
+      quoteCard: 'div[role="link"]',
+      socialContext: '[data-testid="socialContext"]',
+      buttons: {
+        replies: '[data-testid="reply"]',
+        reposts: '[data-testid="retweet"], [data-testid="unretweet"]',
+        likes: '[data-testid="like"], [data-testid="unlike"]',
+        bookmarks: '[data-testid="bookmark"], [data-testid="unbookmark"]',
+      },
+    },
+  },
+  {
+    // Leans on ARIA roles and the `lang` attribute X sets on tweet text, which
+    // have outlived several rounds of test ID renames
+    name: 'aria',
+    version: 1,
+    selectors: {
+      tweet: '[role="article"]',
+      avatar: 'img[src*="profile_images"]',
+      userName: '[data-testid="User-Name"], [data-testid="User-Names"]',
+      text: 'div[lang]',
+      photo: 'img[src*="pbs.twimg.com/media"]',
+      videoPlayer: '[data-testid="videoPlayer"], [data-testid="videoComponent"]',
+      actionBar: '[role="group"][aria-label]',
+      analyticsLink: 'a[href*="/analytics"]',
+      quoteCard: '[role="link"]',
+      socialContext: '[data-testid="socialContext"]',
+      buttons: {
+        replies: 'button[aria-label*="Repl"]',
+        reposts: 'button[aria-label*="Repost"]',
+        likes: 'button[aria-label*="Like"]',
+        bookmarks: 'button[aria-label*="Bookmark"]',
+      },
+    },
+  },
+];
+
+const ARTICLE_BASE_SELECTORS: Omit<ArticleSelectors, 'container'> = {
+  title: ['[data-testid="twitter-article-title"]', 'h1', '[data-testid="article-title"]', 'article h1', 'main h1'],
+  avatar: 'img[src*="profile_images"]',
+  embeddedTweet: '[data-testid="tweet"], [data-testid="simpleTweet"]',
+  userName: '[data-testid="User-Name"]',
+  tweetText: '[data-testid="tweetText"]',
+};
+
+export const ARTICLE_STRATEGIES: SelectorStrategy<ArticleSelectors>[] = [
+  {
+    name: 'rich-text',
+    version: 1,
+    selectors: {
+      ...ARTICLE_BASE_SELECTORS,
+      container: ['[data-testid="twitterArticleRichTextView"]', '[data-testid="longformRichTextComponent"]'],
+    },
+  },
+  {
+    name: 'draft-editor',
+    version: 1,
+    selectors: {
+      ...ARTICLE_BASE_SELECTORS,
+      container: ['.DraftEditor-root', '[data-contents="true"]'],
+    },
+  },
+  {
+    // Whole-page fallback; also picks up the header and footer around the body
+    name: 'page',
+    version: 1,
+    selectors: {
+      ...ARTICLE_BASE_SELECTORS,
+      container: ['article', '[data-testid="article"]', 'main', '[role="main"]', 'body'],
+    },
+  },
+];
+
+/** Identifies a strategy in logs and the `X-Extractor` response header */
+export function strategyId(strategy: SelectorStrategy<unknown>): string {
+  return `${strategy.name}@${strategy.version}`;
+}
+
+/**
+ * Runs `extract` with each strategy in turn and returns the first result that
+ * `isUsable` accepts. If none is usable the first strategy's result is
+ * returned, so callers see what the current markup produced.
+ */
+export async function extractWithFallback<S, T>(
+  strategies: SelectorStrategy<S>[],
+  extract: (selectors: S) => Promise<T>,
+  isUsable: (result: T) => boolean,
+): Promise<StrategyResult<S, T>> {
+  let first: T | undefined;
+
+  for (const strategy of strategies) {
+    const result = await extract(strategy.selectors);
+    if (isUsable(result)) {
+      return { result, strategy };
+    }
+    console.warn(`Extractor ${strategyId(strategy)} found no content, trying the next one`);
+    if (first === undefined) {
+      first = result;
+    }
+  }
+
+  return { result: first as T, strategy: null };
+}
@@ -0,0 +1,20 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Writes to a temp file beside `filePath`, then renames it into place, so a
+ * concurrent read never sees a half-written file. Each write gets its own
+ * temp name, so two writers to the same path can't clobber each other's.
+ */
+export async function writeFileAtomic(filePath: string, contents: string | Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, contents);
+    await fs.rename(tmpPath, filePath);
+  } catch (error) {
+    await fs.unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+}
@@ -0,0 +1,393 @@
+import JSZip from 'jszip';
+import type { Browser } from 'puppeteer';
+import { cacheDigest, cached } from './cache';
+import type { DocumentSource, PreparedDocument } from './convert';
+import { decodeDataUri } from './media';
+import { generatePDF, generatePNG } from './pdf';
+import { toExportDocument } from './schema';
+import { cleanTweetText, formatDate } from './templates';
+import { parseInlineMarkup } from './text';
+import type { ArticleBlock, TweetData } from './types';
+
+export const OUTPUT_FORMATS = ['pdf', 'html', 'markdown', 'epub', 'png', 'json'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface RenderedOutput {
+  body: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+export function isOutputFormat(value: unknown): value is OutputFormat {
+  return typeof value === 'string' && (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a format carries its images inline, as data URIs or packaged files.
+ * Markdown and JSON only link to them, so they are captured with
+ * `inlineMedia` off and skip the downloads.
+ */
+export function embedsMedia(format: OutputFormat): boolean {
+  return format !== 'markdown' && format !== 'json';
+}
+
+/**
+ * Cache entry for a browser-rendered file, named after everything the
+ * renderer reads from the document. A fresh capture or a different theme
+ * changes the HTML or the capture time, and so the name.
+ */
+function renderCacheName(doc: PreparedDocument, extension: string): string {
+  const { html, theme, url, title, author, authorName, subject, keywords, capturedAt } = doc;
+  const digest = cacheDigest({ extension, html, theme, url, title, author, authorName, subject, keywords, capturedAt });
+  return `${doc.fileId}-${digest.slice(0, 32)}.${extension}`;
+}
+
+export async function renderOutput(doc: PreparedDocument, format: OutputFormat, browser?: Browser): Promise<RenderedOutput> {
+  switch (format) {
+    case 'pdf':
+      return {
+        body: await cached(renderCacheName(doc, 'pdf'), () => generatePDF(doc.html, browser, doc.theme, doc)),
+        contentType: 'application/pdf',
+        fileName: `${doc.fileId}.pdf`,
+      };
+    case 'png':
+      return {
+        body: await cached(renderCacheName(doc, 'png'), () => generatePNG(doc.html, browser)),
+        contentType: 'image/png',
+        fileName: `${doc.fileId}.png`,
+      };
+    case 'html':
+      return {
+        // Images are already embedded as data URIs by prepareDocument
+        body: Buffer.from(doc.html),
+        contentType: 'text/html; charset=utf-8',
+        fileName: `${doc.fileId}.html`,
+      };
+    case 'markdown':
+      return {
+        body: Buffer.from(generateMarkdown(doc.source)),
+        contentType: 'text/markdown; charset=utf-8',
+        fileName: `${doc.fileId}.md`,
+      };
+    case 'epub':
+      return {
+        body: await generateEPUB(doc),
+        contentType: 'application/epub+zip',
+        fileName: `${doc.fileId}.epub`,
+      };
+    case 'json':
+      return {
+        body: Buffer.from(JSON.stringify(toExportDocument(doc), null, 2)),
+        contentType: 'application/json; charset=utf-8',
+        fileName: `${doc.fileId}.json`,
+      };
+  }
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function markdownInline(value: string): string {
+  return parseInlineMarkup(value)
+    .map(segment => {
+      let text = segment.code ? `\`${segment.text.replace(/`/g, '')}\`` : escapeMarkdown(segment.text);
+      if (segment.bold) text = `**${text}**`;
+      if (segment.italic) text = `_${text}_`;
+      if (segment.href) text = `[${text}](${segment.href.replace(/\)/g, '%29')})`;
+      return text.replace(/\n/g, '  \n');
+    })
+    .join('');
+}
+
+function markdownByline(name: string, handle: string, date: string): string {
+  const parts = [name ? `**${escapeMarkdown(name)}**` : '', escapeMarkdown(handle), formatDate(date)].filter(Boolean);
+  return parts.join(' · ');
+}
+
+function markdownTweet(tweet: TweetData, includeByline: boolean): string {
+  const lines: string[] = [];
+  if (includeByline) {
+    lines.push(markdownByline(tweet.authorName, tweet.authorHandle, tweet.date), '');
+  }
+  const text = tweet.segments?.length
+    ? tweet.segments
+      .map(segment => ('url' in segment ? `[${escapeMarkdown(segment.text)}](${segment.url.replace(/\)/g, '%29')})` : escapeMarkdown(segment.text)))
+      .join('')
+      .trim()
+    : escapeMarkdown(cleanTweetText(tweet.text));
+  if (text) {
+    lines.push(text.replace(/\n/g, '  \n'), '');
+  }
+  tweet.images.forEach(url => lines.push(`![Tweet image](${url})`, ''));
+  tweet.videos?.forEach(video => {
+    const label = `${video.kind === 'gif' ? 'GIF' : 'Video'}${video.duration ? ` (${video.duration})` : ''}`;
+    const poster = video.posterUrl ? `![${label}](${video.posterUrl})` : label;
+    lines.push(video.url ? `[${poster}](${video.url})` : poster, '');
+  });
+  if (tweet.quotedTweet) {
+    const quoted = markdownTweet(tweet.quotedTweet, true).trim();
+    lines.push(quoted.split('\n').map(line => `> ${line}`.trimEnd()).join('\n'), '');
+  }
+  return lines.join('\n');
+}
+
+function markdownArticleBlock(block: ArticleBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(Math.min(Math.max(block.level, 2), 6))} ${markdownInline(block.html).replace(/ {2}\n/g, ' ')}`;
+    case 'paragraph':
+      return markdownInline(block.html);
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${markdownInline(item).replace(/\n/g, '\n   ')}`)
+        .join('\n');
+    case 'blockquote':
+      return markdownInline(block.html).split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+    case 'code': {
+      const fence = block.code.includes('```') ? '~~~' : '```';
+      return `${fence}${block.language || ''}\n${block.code}\n${fence}`;
+    }
+    case 'image': {
+      const image = `![${escapeMarkdown(block.caption || 'Article image')}](${block.url})`;
+      return block.caption ? `${image}  \n_${escapeMarkdown(block.caption)}_` : image;
+    }
+    case 'tweet': {
+      const byline = [block.authorName ? `**${escapeMarkdown(block.authorName)}**` : '', escapeMarkdown(block.authorHandle)]
+        .filter(Boolean)
+        .join(' ');
+      const lines = [byline, block.text ? escapeMarkdown(block.text) : '', block.url ? `[${block.url}](${block.url})` : '']
+        .filter(Boolean);
+      return lines.map(line => `> ${line}`).join('  \n');
+    }
+    case 'divider':
+      return '---';
+  }
+}
+
+function generateMarkdown(source: DocumentSource): string {
+  switch (source.type) {
+    case 'tweet': {
+      const { tweet } = source;
+      const parent = tweet.parentTweet
+        ? `${markdownTweet(tweet.parentTweet, true).trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`
+        : '';
+      return `${parent}${markdownTweet(tweet, true)}`.trim() + '\n';
+    }
+    case 'thread': {
+      const [first] = source.tweets;
+      const body = source.tweets
+        .map((tweet, index) => `**${index + 1}/${source.tweets.length}**\n\n${markdownTweet(tweet, false)}`.trim())
+        .join('\n\n---\n\n');
+      return `# Thread by ${escapeMarkdown(first.authorHandle)}\n\n${markdownByline(first.authorName, first.authorHandle, first.date)}\n\n${body}\n`;
+    }
+    case 'article': {
+      const { article } = source;
+      const lines: string[] = [];
+      if (article.title) {
+        lines.push(`# ${escapeMarkdown(article.title)}`, '');
+      }
+      lines.push(markdownByline(article.authorName, article.authorHandle, article.date), '');
+      for (const block of article.content) {
+        lines.push(markdownArticleBlock(block), '');
+      }
+      return lines.join('\n').trim() + '\n';
+    }
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xhtmlInline(value: string): string {
+  return parseInlineMarkup(value)
+    .map(segment => {
+      let text = escapeXml(segment.text).replace(/\n/g, '<br />');
+      if (segment.code) text = `<code>${text}</code>`;
+      if (segment.bold) text = `<strong>${text}</strong>`;
+      if (segment.italic) text = `<em>${text}</em>`;
+      if (segment.href) text = `<a href="${escapeXml(segment.href)}">${text}</a>`;
+      return text;
+    })
+    .join('');
+}
+
+/**
+ * Builds an EPUB 3 book with a single content document. Embedded images are
+ * packaged as files, since e-readers generally won't fetch remote resources.
+ */
+async function generateEPUB(doc: PreparedDocument): Promise<Buffer> {
+  const zip = new JSZip();
+  const images = new Map<string, { href: string; contentType: string }>();
+
+  const imageUrls = Array.from(new Set(collectImageUrls(doc.source)));
+  imageUrls.forEach((url, index) => {
+    const embedded = doc.media.dataUris[url];
+    const image = embedded ? decodeDataUri(embedded) : null;
+    if (!image) return;
+    const extension = image.contentType.split('/')[1]?.replace('jpeg', 'jpg') || 'img';
+    const href = `images/image-${index + 1}.${extension}`;
+    images.set(url, { href, contentType: image.contentType });
+    zip.file(`OEBPS/${href}`, image.data);
+  });
+
+  const imageTag = (url: string, alt: string) => {
+    const image = images.get(url);
+    return image ? `<img src="${image.href}" alt="${alt}" />` : `<p><a href="${escapeXml(url)}">${alt}</a></p>`;
+  };
+
+  const tweetXhtml = (tweet: TweetData): string => {
+    const text = tweet.segments?.length
+      ? tweet.segments
+        .map(segment => ('url' in segment ? `<a href="${escapeXml(segment.url)}">${escapeXml(segment.text)}</a>` : escapeXml(segment.text)))
+        .join('')
+        .trim()
+      : escapeXml(cleanTweetText(tweet.text));
+    return [
+      `<p class="byline"><strong>${escapeXml(tweet.authorName)}</strong> ${escapeXml(tweet.authorHandle)}${tweet.date ? ` · ${escapeXml(formatDate(tweet.date))}` : ''}</p>`,
+      text ? `<p>${text.replace(/\n/g, '<br />')}</p>` : '',
+      ...tweet.images.map(url => imageTag(url, 'Tweet image')),
+      ...(tweet.videos || []).map(video => {
+        const label = video.kind === 'gif' ? 'GIF' : `Video${video.duration ? ` (${video.duration})` : ''}`;
+        const poster = video.posterUrl && images.has(video.posterUrl) ? imageTag(video.posterUrl, label) : '';
+        return video.url ? `${poster}<p><a href="${escapeXml(video.url)}">${escapeXml(label)}</a></p>` : poster;
+      }),
+      tweet.quotedTweet ? `<blockquote>${tweetXhtml(tweet.quotedTweet)}</blockquote>` : '',
+    ].filter(Boolean).join('\n');
+  };
+
+  const { source } = doc;
+  let bodyXhtml: string;
+  let author: string;
+
+  if (source.type === 'article') {
+    const { article } = source;
+    author = article.authorName || article.authorHandle;
+    bodyXhtml = [
+      `<h1>${escapeXml(article.title || doc.title)}</h1>`,
+      `<p class="byline"><strong>${escapeXml(article.authorName)}</strong> ${escapeXml(article.authorHandle)}${article.date ? ` · ${escapeXml(formatDate(article.date))}` : ''}</p>`,
+      ...article.content.map(block => {
+        switch (block.type) {
+          case 'heading': {
+            const level = Math.min(Math.max(block.level, 2), 6);
+            return `<h${level}>${xhtmlInline(block.html)}</h${level}>`;
+          }
+          case 'paragraph':
+            return `<p>${xhtmlInline(block.html)}</p>`;
+          case 'list': {
+            const tag = block.ordered ? 'ol' : 'ul';
+            return `<${tag}>${block.items.map(item => `<li>${xhtmlInline(item)}</li>`).join('')}</${tag}>`;
+          }
+          case 'blockquote':
+            return `<blockquote><p>${xhtmlInline(block.html)}</p></blockquote>`;
+          case 'code':
+            return `<pre><code>${escapeXml(block.code)}</code></pre>`;
+          case 'image':
+            return block.caption
+              ? `<figure>${imageTag(block.url, escapeXml(block.caption))}<figcaption>${escapeXml(block.caption)}</figcaption></figure>`
+              : imageTag(block.url, 'Article image');
+          case 'tweet':
+            return `<blockquote><p><strong>${escapeXml(block.authorName)}</strong> ${escapeXml(block.authorHandle)}</p>${block.text ? `<p>${escapeXml(block.text)}</p>` : ''}${block.url ? `<p><a href="${escapeXml(block.url)}">${escapeXml(block.url)}</a></p>` : ''}</blockquote>`;
+          case 'divider':
+            return '<hr />';
+        }
+      }),
+    ].join('\n');
+  } else {
+    const tweets = source.type === 'thread' ? source.tweets : [source.tweet];
+    author = tweets[0].authorName || tweets[0].authorHandle;
+    bodyXhtml = [
+      `<h1>${escapeXml(doc.title)}</h1>`,
+      source.type === 'tweet' && source.tweet.parentTweet
+        ? `<blockquote>${tweetXhtml(source.tweet.parentTweet)}</blockquote>`
+        : '',
+      tweets.map(tweet => `<section>\n${tweetXhtml(tweet)}\n</section>`).join('\n<hr />\n'),
+    ].filter(Boolean).join('\n');
+  }
+
+  const title = escapeXml(doc.title);
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`);
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:tweettopdf:${escapeXml(doc.fileId)}</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:creator>${escapeXml(author || 'Unknown')}</dc:creator>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="content" href="content.xhtml" media-type="application/xhtml+xml"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${Array.from(images.values()).map((image, index) => `    <item id="image-${index + 1}" href="${image.href}" media-type="${image.contentType}"/>`).join('\n')}
+  </manifest>
+  <spine>
+    <itemref idref="content"/>
+  </spine>
+</package>`);
+  zip.file('OEBPS/nav.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${title}</title></head>
+<body>
+  <nav epub:type="toc">
+    <ol><li><a href="content.xhtml">${title}</a></li></ol>
+  </nav>
+</body>
+</html>`);
+  zip.file('OEBPS/style.css', `body { font-family: serif; line-height: 1.6; }
+h1 { font-size: 1.6em; line-height: 1.2; }
+h2 { font-size: 1.25em; margin-top: 1.5em; }
+h3, h4, h5, h6 { font-size: 1.1em; margin-top: 1.2em; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+figcaption { color: #536471; font-size: 0.9em; text-align: center; }
+img { max-width: 100%; }
+.byline { color: #536471; font-size: 0.9em; }
+blockquote { border-left: 3px solid #cfd9de; margin-left: 0; padding-left: 1em; }`);
+  zip.file('OEBPS/content.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" lang="en">
+<head>
+  <title>${title}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${bodyXhtml}
+</body>
+</html>`);
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+}
+
+function collectImageUrls(source: DocumentSource): string[] {
+  const tweetImages = (tweet: TweetData | null | undefined): string[] =>
+    tweet
+      ? [...tweet.images, ...(tweet.videos || []).map(video => video.posterUrl).filter(Boolean), ...tweetImages(tweet.quotedTweet)]
+      : [];
+
+  switch (source.type) {
+    case 'article':
+      return source.article.content.flatMap(block => (block.type === 'image' ? [block.url] : []));
+    case 'thread':
+      return source.tweets.flatMap(tweetImages);
+    case 'tweet':
+      return [...tweetImages(source.tweet.parentTweet), ...tweetImages(source.tweet)];
+  }
+}
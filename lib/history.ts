@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CapturedDocument, SourceMethod } from './convert';
+import { writeFileAtomic } from './files';
+import type { EmbeddedMedia } from './types';
+
+// Every fresh capture of a tweet, thread or article, kept so edits and
+// deletions can be traced. Nothing expires here; point HISTORY_DIR at a
+// persistent disk in production.
+const HISTORY_DIR = process.env.HISTORY_DIR || path.join(os.tmpdir(), 'tweettopdf-history');
+
+export type SnapshotStatus = 'available' | 'unavailable';
+
+export interface SnapshotSummary {
+  /** The capture time in compact form, e.g. `20240513T162000000Z` */
+  id: string;
+  documentId: string;
+  url: string;
+  capturedAt: string;
+  /** `unavailable` when X reported the content as private or deleted */
+  status: SnapshotStatus;
+  error: string | null;
+  sourceMethod: SourceMethod | null;
+  extractor: string | null;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  /** The scraped content with its embedded media; null when unavailable */
+  document: CapturedDocument | null;
+}
+
+/** What's written to `<id>.json`; the media goes to `<id>.media.json` so listings stay cheap */
+interface StoredSnapshot extends SnapshotSummary {
+  document: Omit<CapturedDocument, 'media'> | null;
+  /** `sessionScope` of the cookies used, when they were the caller's own */
+  session: string | null;
+}
+
+const DOCUMENT_ID_PATTERN = /^(tweet|thread|article)-\d+$/;
+const SNAPSHOT_ID_PATTERN = /^\d{8}T\d{9}Z$/;
+
+export function isValidSnapshotId(id: string): boolean {
+  return SNAPSHOT_ID_PATTERN.test(id);
+}
+
+function documentDir(documentId: string): string {
+  if (!DOCUMENT_ID_PATTERN.test(documentId)) {
+    throw new Error(`Invalid document ID: ${documentId}`);
+  }
+  return path.join(HISTORY_DIR, documentId);
+}
+
+function snapshotId(capturedAt: string): string {
+  return new Date(capturedAt).toISOString().replace(/[-:.]/g, '');
+}
+
+function summarize(snapshot: StoredSnapshot): SnapshotSummary {
+  const { id, documentId, url, capturedAt, status, error, sourceMethod, extractor } = snapshot;
+  return { id, documentId, url, capturedAt, status, error, sourceMethod, extractor };
+}
+
+/**
+ * Records a capture, or the failure to capture because the content is gone.
+ * A failed write is logged rather than failing the conversion it came from.
+ */
+export async function recordSnapshot(documentId: string, url: string, session: string | null, result: CapturedDocument | Error): Promise<void> {
+  let snapshot: StoredSnapshot;
+  let media: EmbeddedMedia | null = null;
+
+  if (result instanceof Error) {
+    const capturedAt = new Date().toISOString();
+    snapshot = {
+      id: snapshotId(capturedAt),
+      documentId,
+      url,
+      capturedAt,
+      status: 'unavailable',
+      error: result.message,
+      sourceMethod: null,
+      extractor: null,
+      document: null,
+      session,
+    };
+  } else {
+    const { media: capturedMedia, ...document } = result;
+    media = capturedMedia;
+    snapshot = {
+      id: snapshotId(result.capturedAt),
+      documentId,
+      url,
+      capturedAt: result.capturedAt,
+      status: 'available',
+      error: null,
+      sourceMethod: result.sourceMethod,
+      extractor: result.extractor,
+      document,
+      session,
+    };
+  }
+
+  try {
+    const dir = documentDir(documentId);
+    if (media) {
+      await writeFileAtomic(path.join(dir, `${snapshot.id}.media.json`), JSON.stringify(media));
+    }
+    await writeFileAtomic(path.join(dir, `${snapshot.id}.json`), JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn(`Failed to record snapshot of ${documentId}:`, error);
+  }
+}
+
+async function readStoredSnapshot(dir: string, id: string): Promise<StoredSnapshot | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, `${id}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Captures made with someone's own cookies are only shown to those cookies
+function isVisible(snapshot: StoredSnapshot, session: string | null): boolean {
+  return snapshot.session === null || snapshot.session === session;
+}
+
+/** The document's captures visible to `session`, oldest first */
+export async function listSnapshots(documentId: string, session: string | null): Promise<SnapshotSummary[]> {
+  const dir = documentDir(documentId);
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const ids = files.flatMap(file => {
+    const id = file.replace(/\.json$/, '');
+    return isValidSnapshotId(id) ? [id] : [];
+  });
+  const snapshots = await Promise.all(ids.map(id => readStoredSnapshot(dir, id)));
+
+  return snapshots
+    .filter((snapshot): snapshot is StoredSnapshot => snapshot !== null && isVisible(snapshot, session))
+    .map(summarize)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export async function getSnapshot(documentId: string, id: string, session: string | null): Promise<Snapshot | null> {
+  if (!isValidSnapshotId(id)) return null;
+
+  const dir = documentDir(documentId);
+  const stored = await readStoredSnapshot(dir, id);
+  if (!stored || !isVisible(stored, session)) return null;
+  if (!stored.document) {
+    return { ...summarize(stored), document: null };
+  }
+
+  const media: EmbeddedMedia = await fs.readFile(path.join(dir, `${id}.media.json`), 'utf8')
+    .then(text => JSON.parse(text))
+    .catch(() => ({ dataUris: {}, failed: [] }));
+  return { ...summarize(stored), document: { ...stored.document, media } };
+}
+
+/**
+ * When the content went missing: the first of the trailing run of
+ * unavailable captures, or null when the latest capture found it.
+ */
+export function unavailableSince(snapshots: SnapshotSummary[]): string | null {
+  let since: string | null = null;
+  for (const snapshot of snapshots) {
+    since = snapshot.status === 'unavailable' ? since || snapshot.capturedAt : null;
+  }
+  return since;
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConversionError, prepareDocument, type ConvertOptions, type SourceMethod } from './convert';
+import { writeFileAtomic } from './files';
+import { embedsMedia, renderOutput, type OutputFormat } from './formats';
+
+// Jobs run inside the server process, so this needs a long-lived host (the
+// Render container), not a serverless function that stops after responding.
+const JOBS_DIR = process.env.JOBS_DIR || path.join(os.tmpdir(), 'tweettopdf-jobs');
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+const JOB_TTL_MS = Number(process.env.JOB_TTL_MS) || 60 * 60 * 1000;
+
+export type JobStatus = 'queued' | 'scraping' | 'rendering' | 'done' | 'failed';
+
+export interface Job {
+  id: string;
+  url: string;
+  format: OutputFormat;
+  status: JobStatus;
+  fileName?: string;
+  contentType?: string;
+  failedImages?: string[];
+  extractor?: string;
+  sourceMethod?: SourceMethod;
+  /** Whether the content came from the capture cache */
+  cached?: boolean;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface QueuedJob {
+  id: string;
+  options: ConvertOptions;
+}
+
+// Auth cookies only ever live in this in-memory queue, never in the job files
+const globalForJobs = globalThis as unknown as { jobQueue?: QueuedJob[]; activeJobs?: Set<string> };
+const queue = globalForJobs.jobQueue ?? (globalForJobs.jobQueue = []);
+const activeJobs = globalForJobs.activeJobs ?? (globalForJobs.activeJobs = new Set());
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function isValidJobId(id: string): boolean {
+  return JOB_ID_PATTERN.test(id);
+}
+
+function jobPath(id: string): string {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function resultPath(id: string): string {
+  return path.join(JOBS_DIR, `${id}.result`);
+}
+
+async function writeJob(job: Job): Promise<void> {
+  await writeFileAtomic(jobPath(job.id), JSON.stringify(job, null, 2));
+}
+
+async function updateJob(id: string, changes: Partial<Job>): Promise<Job> {
+  const job = await getJob(id);
+  if (!job) {
+    throw new Error(`Job ${id} not found`);
+  }
+  const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+  await writeJob(updated);
+  return updated;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  if (!isValidJobId(id)) return null;
+
+  let job: Job;
+  try {
+    job = JSON.parse(await fs.readFile(jobPath(id), 'utf8'));
+  } catch {
+    return null;
+  }
+
+  // A job left unfinished by a previous server process will never complete
+  const inProgress = job.status !== 'done' && job.status !== 'failed';
+  if (inProgress && !activeJobs.has(id) && !queue.some(item => item.id === id)) {
+    job = { ...job, status: 'failed', error: 'Job was interrupted by a server restart. Please resubmit.' };
+  }
+
+  return job;
+}
+
+export async function readJobResult(id: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(resultPath(id));
+  } catch {
+    return null;
+  }
+}
+
+export async function createJob(url: string, format: OutputFormat, options: ConvertOptions): Promise<Job> {
+  await removeExpiredJobs();
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    url,
+    format,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeJob(job);
+  queue.push({ id: job.id, options });
+  processQueue();
+
+  return job;
+}
+
+function processQueue(): void {
+  while (activeJobs.size < JOB_CONCURRENCY && queue.length > 0) {
+    const next = queue.shift()!;
+    activeJobs.add(next.id);
+    runJob(next)
+      .catch(error => console.error(`Job ${next.id} bookkeeping failed:`, error))
+      .finally(() => {
+        activeJobs.delete(next.id);
+        processQueue();
+      });
+  }
+}
+
+async function runJob({ id, options }: QueuedJob): Promise<void> {
+  const job = await updateJob(id, { status: 'scraping' });
+
+  try {
+    const doc = await prepareDocument(job.url, { ...options, inlineMedia: embedsMedia(job.format) });
+    await updateJob(id, {
+      status: 'rendering',
+      failedImages: doc.media.failed,
+      extractor: doc.extractor || undefined,
+      sourceMethod: doc.sourceMethod,
+      cached: doc.cached,
+    });
+
+    const output = await renderOutput(doc, job.format);
+    await fs.writeFile(resultPath(id), output.body);
+    await updateJob(id, { status: 'done', fileName: output.fileName, contentType: output.contentType });
+  } catch (error) {
+    if (!(error instanceof ConversionError)) {
+      console.error(`Job ${id} failed:`, error);
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await updateJob(id, {
+      status: 'failed',
+      error: error instanceof ConversionError ? errorMessage : `Failed to convert: ${errorMessage}`,
+    });
+  }
+}
+
+async function removeExpiredJobs(): Promise<void> {
+  let files: string[];
+  try {
+    files = await fs.readdir(JOBS_DIR);
+  } catch {
+    return;
+  }
+
+  const cutoff = Date.now() - JOB_TTL_MS;
+  await Promise.all(files.map(async file => {
+    const id = file.split('.')[0];
+    if (activeJobs.has(id)) return;
+    const filePath = path.join(JOBS_DIR, file);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (stat && stat.mtimeMs < cutoff) {
+      await fs.unlink(filePath).catch(() => {});
+    }
+  }));
+}
@@ -0,0 +1,85 @@
+import type { Browser } from 'puppeteer';
+import { setupPage, withPage } from './browser';
+import type { AuthCookies, EmbeddedMedia } from './types';
+
+const MEDIA_TIMEOUT_MS = 15000;
+
+/**
+ * Candidate URLs for an image, best resolution first. Media URLs take a
+ * `name=` size parameter (`small`, `medium`, `large`, `orig`); the original
+ * URL is always tried last.
+ */
+function resolutionCandidates(url: string): string[] {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname !== 'pbs.twimg.com' || !parsed.pathname.startsWith('/media/')) {
+      return [url];
+    }
+    return ['orig', 'large'].map(name => {
+      const candidate = new URL(parsed.toString());
+      candidate.searchParams.set('name', name);
+      return candidate.toString();
+    }).concat(url).filter((candidate, index, all) => all.indexOf(candidate) === index);
+  } catch {
+    return [url];
+  }
+}
+
+/**
+ * Downloads every image through a page carrying the caller's auth cookies and
+ * returns them as data URIs, so rendering never depends on the CDN answering
+ * in time. Images that can't be fetched at any resolution are listed in `failed`.
+ */
+export async function embedMedia(urls: string[], auth: AuthCookies, browser?: Browser): Promise<EmbeddedMedia> {
+  const uniqueUrls = Array.from(new Set(urls.filter(url => /^https?:\/\//.test(url))));
+  const media: EmbeddedMedia = { dataUris: {}, failed: [] };
+  if (uniqueUrls.length === 0) {
+    return media;
+  }
+
+  return withPage(browser, async (page) => {
+    await setupPage(page, auth);
+
+    for (const url of uniqueUrls) {
+      let dataUri: string | null = null;
+
+      for (const candidate of resolutionCandidates(url)) {
+        try {
+          const response = await page.goto(candidate, { waitUntil: 'load', timeout: MEDIA_TIMEOUT_MS });
+          const contentType = response?.headers()['content-type'] || '';
+          if (response && response.ok() && contentType.startsWith('image/')) {
+            const buffer = await response.buffer();
+            dataUri = `data:${contentType.split(';')[0]};base64,${buffer.toString('base64')}`;
+            break;
+          }
+        } catch {
+          // Try the next resolution
+        }
+      }
+
+      if (dataUri) {
+        media.dataUris[url] = dataUri;
+      } else {
+        media.failed.push(url);
+      }
+    }
+
+    return media;
+  });
+}
+
+/**
+ * Swaps `src` attributes pointing at downloaded images for their data URIs.
+ */
+export function applyEmbeddedMedia(html: string, media: EmbeddedMedia): string {
+  let result = html;
+  for (const [url, dataUri] of Object.entries(media.dataUris)) {
+    result = result.split(`src="${url}"`).join(`src="${dataUri}"`);
+  }
+  return result;
+}
+
+export function decodeDataUri(dataUri: string): { data: Buffer; contentType: string } | null {
+  const match = dataUri.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { contentType: match[1], data: Buffer.from(match[2], 'base64') } : null;
+}
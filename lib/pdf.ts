@@ -0,0 +1,159 @@
+import { PDFDocument } from 'pdf-lib';
+import type { Browser, Page } from 'puppeteer';
+import { withPage } from './browser';
+import { escapeHtml, formatCaptureTime } from './templates';
+import { resolveTheme, type PageMargin, type Theme } from './themes';
+
+/** Where a document came from, printed in the running header and footer */
+export interface Provenance {
+  url: string;
+  author: string;
+  title: string;
+  capturedAt: string;
+}
+
+/** Provenance plus what goes in the PDF's document properties */
+export interface PdfMetadata extends Provenance {
+  authorName: string;
+  subject: string;
+  keywords: string[];
+}
+
+// Room the header/footer band needs inside the page margin
+const MIN_BAND_MARGIN_PX = 40;
+
+const PX_PER_UNIT: Record<string, number> = { px: 1, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+
+function toPixels(length: string): number {
+  const match = /^(\d+(?:\.\d+)?)(px|in|cm|mm)$/.exec(length);
+  return match ? Number(match[1]) * PX_PER_UNIT[match[2]] : 0;
+}
+
+/**
+ * Turns header/footer text into a Chromium print template. Placeholders are
+ * filled in here, except the page numbers, which Chromium fills per page.
+ */
+export function renderBandTemplate(text: string, provenance: Provenance, theme: Theme): string {
+  const values: Record<string, string> = {
+    url: escapeHtml(provenance.url),
+    author: escapeHtml(provenance.author),
+    title: escapeHtml(provenance.title),
+    capturedAt: escapeHtml(formatCaptureTime(provenance.capturedAt)),
+    page: '<span class="pageNumber"></span>',
+    pages: '<span class="totalPages"></span>',
+  };
+  const content = text
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      return name && name in values ? values[name] : escapeHtml(part);
+    })
+    .join('');
+
+  // Print templates don't see the page's stylesheets, so everything is inline
+  const style = [
+    'width: 100%',
+    'box-sizing: border-box',
+    `padding: 0 ${theme.page.margin.right} 0 ${theme.page.margin.left}`,
+    'font-size: 8px',
+    `font-family: ${theme.fontFamily}`,
+    `color: ${theme.colors.muted}`,
+    'text-align: center',
+    'white-space: nowrap',
+    'overflow: hidden',
+    'text-overflow: ellipsis',
+    '-webkit-print-color-adjust: exact',
+  ].join('; ');
+  return `<div style="${escapeHtml(style)}">${content}</div>`;
+}
+
+function atLeast(length: string, minimumPx: number): string {
+  return toPixels(length) >= minimumPx ? length : `${minimumPx}px`;
+}
+
+async function loadContent(page: Page, html: string): Promise<void> {
+  await page.setContent(html, {
+    waitUntil: 'networkidle0',
+    timeout: 30000,
+  });
+
+  // Wait for images to load
+  await page.evaluate(() => {
+    return Promise.all(
+      Array.from(document.images)
+        .filter(img => !img.complete)
+        .map(img => new Promise(resolve => {
+          img.onload = img.onerror = resolve;
+        }))
+    );
+  });
+
+  // Custom theme fonts load asynchronously from their stylesheet
+  await page.evaluate(() => document.fonts.ready.then(() => undefined));
+}
+
+async function applyMetadata(pdf: Uint8Array, metadata: PdfMetadata): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(pdf, { updateMetadata: false });
+  doc.setTitle(metadata.title, { showInWindowTitleBar: true });
+  doc.setAuthor(metadata.authorName && metadata.author ? `${metadata.authorName} (${metadata.author})` : metadata.authorName || metadata.author);
+  doc.setSubject(metadata.subject);
+  doc.setKeywords(metadata.keywords);
+  doc.setCreator('Tweets to PDF');
+  doc.setProducer('Tweets to PDF');
+  const capturedAt = new Date(metadata.capturedAt);
+  if (!isNaN(capturedAt.getTime())) {
+    doc.setCreationDate(capturedAt);
+  }
+  doc.setModificationDate(new Date());
+  return doc.save();
+}
+
+/**
+ * Prints the page with the theme's page size and margins, bookmarking its
+ * headings. With `metadata`, the theme's running header and footer are added
+ * to every page (widening the top/bottom margins if they're too narrow to
+ * hold them) and the document properties are filled in.
+ */
+export async function generatePDF(html: string, browser?: Browser, theme: Theme = resolveTheme(), metadata?: PdfMetadata): Promise<Buffer> {
+  const { size, header, footer } = theme.page;
+  const showHeader = Boolean(metadata && header);
+  const showFooter = Boolean(metadata && footer);
+  const margin: PageMargin = {
+    ...theme.page.margin,
+    top: showHeader ? atLeast(theme.page.margin.top, MIN_BAND_MARGIN_PX) : theme.page.margin.top,
+    bottom: showFooter ? atLeast(theme.page.margin.bottom, MIN_BAND_MARGIN_PX) : theme.page.margin.bottom,
+  };
+
+  return withPage(browser, async (page) => {
+    await loadContent(page, html);
+
+    const pdfBuffer = await page.pdf({
+      ...(typeof size === 'string' ? { format: size } : { width: size.width, height: size.height }),
+      printBackground: true,
+      margin,
+      displayHeaderFooter: showHeader || showFooter,
+      // An empty template still prints Chromium's default, so blank it explicitly
+      headerTemplate: showHeader ? renderBandTemplate(header!, metadata!, theme) : '<span></span>',
+      footerTemplate: showFooter ? renderBandTemplate(footer!, metadata!, theme) : '<span></span>',
+      // Chromium builds the bookmarks from h1-h6 in the tagged PDF structure
+      tagged: true,
+      outline: true,
+    });
+
+    return Buffer.from(metadata ? await applyMetadata(pdfBuffer, metadata) : pdfBuffer);
+  });
+}
+
+/**
+ * Renders the page as a single PNG card. The viewport is narrow enough that
+ * the tweet/article column fills most of the image.
+ */
+export async function generatePNG(html: string, browser?: Browser): Promise<Buffer> {
+  return withPage(browser, async (page) => {
+    await page.setViewport({ width: 760, height: 800, deviceScaleFactor: 2 });
+    await loadContent(page, html);
+
+    const pngBuffer = await page.screenshot({ type: 'png', fullPage: true });
+    return Buffer.from(pngBuffer);
+  });
+}
@@ -0,0 +1,153 @@
+import type { Browser } from 'puppeteer';
+import { collectMediaUrls, ConversionError, readConvertOptions, withSession, type ConvertOptions } from './convert';
+import { applyEmbeddedMedia, embedMedia } from './media';
+import { generatePDF } from './pdf';
+import { MAX_TIMELINE_TWEETS, scrapeProfileTimeline } from './scraper';
+import { generateProfileHTML } from './templates';
+import { resolveTheme } from './themes';
+
+// Posts exported when neither a count nor a date range is given
+const DEFAULT_PROFILE_POSTS = 20;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ProfileExportOptions extends ConvertOptions {
+  /** Most posts to export, newest first; defaults to all in the range, up to the maximum */
+  count?: number;
+  /** First day (`YYYY-MM-DD`) or ISO time to include */
+  since?: string;
+  /** Last day (`YYYY-MM-DD`, inclusive) or ISO time (exclusive) to include */
+  until?: string;
+  replies?: boolean;
+  reposts?: boolean;
+}
+
+export interface ProfileExport {
+  handle: string;
+  fileName: string;
+  pdf: Buffer;
+  posts: number;
+  failedImages: string[];
+  extractor: string | null;
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+/**
+ * Checks the count and range fields of a request body, returning an error
+ * message for the first invalid one, or null when they're all usable.
+ */
+export function validateProfileExportOptions(body: Record<string, unknown>): string | null {
+  const { count, since, until } = body;
+  if (count !== undefined && !(Number.isInteger(count) && (count as number) >= 1 && (count as number) <= MAX_TIMELINE_TWEETS)) {
+    return `Invalid count. Use a whole number from 1 to ${MAX_TIMELINE_TWEETS}.`;
+  }
+  for (const [name, value] of [['since', since], ['until', until]] as const) {
+    if (value !== undefined && !isDate(value)) {
+      return `Invalid ${name}. Use a date like "2024-05-01" or an ISO timestamp.`;
+    }
+  }
+  if (isDate(since) && isDate(until) && Date.parse(since) > Date.parse(until)) {
+    return 'Invalid range. since must not be after until.';
+  }
+  return null;
+}
+
+/** Picks the profile export fields out of a request body, alongside the usual conversion options */
+export function readProfileExportOptions(body: Record<string, unknown>): ProfileExportOptions {
+  return {
+    ...readConvertOptions(body),
+    count: typeof body.count === 'number' ? body.count : undefined,
+    since: isDate(body.since) ? body.since : undefined,
+    until: isDate(body.until) ? body.until : undefined,
+    replies: Boolean(body.replies),
+    reposts: Boolean(body.reposts),
+  };
+}
+
+// A bare date means the whole day, so the exclusive bound is the next midnight
+function exclusiveUntil(until: string): string {
+  const date = new Date(until);
+  if (DATE_ONLY.test(until)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString();
+}
+
+function formatDay(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+/** What the export covers, for the cover page, e.g. "Posts and replies from May 1, 2024 to May 31, 2024" */
+function describeExport(options: ProfileExportOptions): string {
+  const kinds = ['Posts', ...(options.replies ? ['replies'] : []), ...(options.reposts ? ['reposts'] : [])];
+  const what = kinds.length > 1 ? `${kinds.slice(0, -1).join(', ')} and ${kinds[kinds.length - 1]}` : kinds[0];
+
+  if (options.since && options.until) return `${what} from ${formatDay(options.since)} to ${formatDay(options.until)}`;
+  if (options.since) return `${what} since ${formatDay(options.since)}`;
+  if (options.until) return `${what} until ${formatDay(options.until)}`;
+  return `Latest ${what.charAt(0).toLowerCase()}${what.slice(1)}`;
+}
+
+/**
+ * Exports a profile's posts in a date range or the latest `count` of them as
+ * one PDF, oldest first, behind a cover page with the account's avatar, name
+ * and handle. Timelines are only shown to signed-in sessions.
+ */
+export async function exportProfile(handle: string, options: ProfileExportOptions, browser?: Browser): Promise<ProfileExport> {
+  const capturedAt = new Date().toISOString();
+  const hasRange = Boolean(options.since || options.until);
+
+  const timeline = await withSession(
+    options,
+    new ConversionError('Profile timelines require authentication. Please provide your auth_token cookie.'),
+    auth => scrapeProfileTimeline(handle, auth, browser, {
+      limit: options.count || (hasRange ? MAX_TIMELINE_TWEETS : DEFAULT_PROFILE_POSTS),
+      replies: options.replies,
+      reposts: options.reposts,
+      since: options.since && new Date(options.since).toISOString(),
+      until: options.until && exclusiveUntil(options.until),
+    }),
+  );
+
+  if (timeline.length === 0) {
+    throw new ConversionError(`No posts by @${handle} were found${hasRange ? ' in that range' : ''}. The account may be private or suspended.`);
+  }
+
+  const tweets = [...timeline].reverse();
+  // The account's own posts carry its profile; reposts carry someone else's
+  const own = tweets.find(tweet => !tweet.repostedBy);
+  const authorHandle = own?.authorHandle || `@${handle}`;
+  const authorName = own?.authorName || '';
+  const description = describeExport(options);
+  const url = `https://x.com/${handle}`;
+
+  const media = await embedMedia(collectMediaUrls({ type: 'thread', tweets }), options, browser);
+  const theme = resolveTheme(options.theme);
+  const html = generateProfileHTML(
+    { name: authorName, handle: authorHandle, avatar: own?.authorAvatar || null, description, capturedAt },
+    tweets.map(({ id, ...tweet }) => ({ url: `https://x.com/${tweet.authorHandle.replace(/^@/, '')}/status/${id}`, tweet })),
+    { hideMetrics: options.hideMetrics, theme },
+  );
+
+  const pdf = await generatePDF(applyEmbeddedMedia(html, media), browser, theme, {
+    url,
+    author: authorHandle,
+    authorName,
+    title: `Posts by ${authorHandle}`,
+    subject: `${description}, ${tweets.length} in all, captured from ${url}`,
+    keywords: [authorHandle, 'profile'],
+    capturedAt,
+  });
+
+  return {
+    handle,
+    fileName: `profile-${handle.toLowerCase()}-${capturedAt.slice(0, 10)}.pdf`,
+    pdf,
+    posts: tweets.length,
+    failedImages: media.failed,
+    extractor: timeline[0].extractor || null,
+  };
+}
@@ -0,0 +1,156 @@
+import type { PreparedDocument } from './convert';
+import { inlineText } from './text';
+import type { ArticleData, TextSegment, TweetData, TweetMetrics } from './types';
+
+/**
+ * Version of the JSON export shape. Bump it whenever a field is removed or
+ * changes meaning; adding optional fields doesn't require a bump.
+ */
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export interface ExportedAuthor {
+  name: string;
+  handle: string;
+  avatarUrl: string | null;
+}
+
+export type ExportedMedia =
+  | { type: 'image'; url: string }
+  | { type: 'video' | 'gif'; url: string; posterUrl: string; duration: string | null };
+
+export interface ExportedTweet {
+  author: ExportedAuthor;
+  text: string;
+  /** Inline structure of `text`; links hold expanded URLs, not t.co redirects */
+  segments: TextSegment[];
+  date: string | null;
+  media: ExportedMedia[];
+  /** Engagement counts frozen at `capturedAt`; null when not captured */
+  metrics: TweetMetrics | null;
+  capturedAt: string | null;
+  replyingTo: string[];
+  quotedTweet: ExportedTweet | null;
+  parentTweet: ExportedTweet | null;
+}
+
+/**
+ * Article blocks in reading order. `html` carries the sanitized inline markup
+ * (links, `<strong>`, `<em>`, `<code>`, `<br>`) and `text` its plain version.
+ */
+export type ExportedArticleBlock =
+  | { type: 'heading'; level: number; text: string; html: string }
+  | { type: 'paragraph'; text: string; html: string }
+  | { type: 'list'; ordered: boolean; items: { text: string; html: string }[] }
+  | { type: 'blockquote'; text: string; html: string }
+  | { type: 'code'; language: string | null; code: string }
+  | { type: 'image'; url: string; caption: string | null }
+  | { type: 'tweet'; url: string; author: ExportedAuthor; text: string }
+  | { type: 'divider' };
+
+export interface ExportedArticle {
+  title: string;
+  author: ExportedAuthor;
+  date: string | null;
+  content: ExportedArticleBlock[];
+  media: ExportedMedia[];
+}
+
+interface ExportEnvelope {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  id: string;
+  url: string;
+  capturedAt: string;
+  /** Media URLs that could not be downloaded at capture time */
+  failedMedia: string[];
+}
+
+export type ExportDocument =
+  | ExportEnvelope & { type: 'tweet'; tweet: ExportedTweet }
+  | ExportEnvelope & { type: 'thread'; tweets: ExportedTweet[] }
+  | ExportEnvelope & { type: 'article'; article: ExportedArticle };
+
+function toIsoDate(date: string): string | null {
+  if (!date) return null;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function exportTweet(tweet: TweetData): ExportedTweet {
+  return {
+    author: {
+      name: tweet.authorName,
+      handle: tweet.authorHandle,
+      avatarUrl: tweet.authorAvatar || null,
+    },
+    text: tweet.text,
+    segments: tweet.segments || [{ type: 'text', text: tweet.text }],
+    date: toIsoDate(tweet.date),
+    media: [
+      ...tweet.images.map((url): ExportedMedia => ({ type: 'image', url })),
+      ...(tweet.videos || []).map((video): ExportedMedia => ({
+        type: video.kind,
+        url: video.url,
+        posterUrl: video.posterUrl,
+        duration: video.duration,
+      })),
+    ],
+    metrics: tweet.metrics || null,
+    capturedAt: tweet.capturedAt || null,
+    replyingTo: tweet.replyingTo || [],
+    quotedTweet: tweet.quotedTweet ? exportTweet(tweet.quotedTweet) : null,
+    parentTweet: tweet.parentTweet ? exportTweet(tweet.parentTweet) : null,
+  };
+}
+
+function exportArticle(article: ArticleData): ExportedArticle {
+  const content = article.content.map((block): ExportedArticleBlock => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+      case 'blockquote':
+        return { ...block, text: inlineText(block.html) };
+      case 'list':
+        return { ...block, items: block.items.map(html => ({ text: inlineText(html), html })) };
+      case 'tweet':
+        return {
+          type: 'tweet',
+          url: block.url,
+          author: { name: block.authorName, handle: block.authorHandle, avatarUrl: null },
+          text: block.text,
+        };
+      default:
+        return block;
+    }
+  });
+
+  return {
+    title: article.title,
+    author: {
+      name: article.authorName,
+      handle: article.authorHandle,
+      avatarUrl: article.authorAvatar || null,
+    },
+    date: toIsoDate(article.date),
+    content,
+    media: content.flatMap(block => (block.type === 'image' ? [{ type: 'image' as const, url: block.url }] : [])),
+  };
+}
+
+export function toExportDocument(doc: PreparedDocument): ExportDocument {
+  const envelope: ExportEnvelope = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    id: doc.id,
+    url: doc.url,
+    capturedAt: doc.capturedAt,
+    failedMedia: doc.media.failed,
+  };
+
+  switch (doc.source.type) {
+    case 'tweet':
+      return { ...envelope, type: 'tweet', tweet: exportTweet(doc.source.tweet) };
+    case 'thread':
+      return { ...envelope, type: 'thread', tweets: doc.source.tweets.map(exportTweet) };
+    case 'article':
+      return { ...envelope, type: 'article', article: exportArticle(doc.source.article) };
+  }
+}
@@ -0,0 +1,425 @@
+import type { Browser, Page } from 'puppeteer';
+import { setupPage, withPage } from './browser';
+import { ContentUnavailableError } from './errors';
+import { createTweetParsers, extractArticlePage, extractTimelineTweets, extractTweetPage, extractUnavailableNotice, type ThreadEntry, type TweetSelectors } from './extract';
+import { ARTICLE_STRATEGIES, TWEET_STRATEGIES, extractWithFallback, strategyId } from './extractors';
+import { assertSession } from './session';
+import type { ArticleData, AuthCookies, TweetData, TweetVideo } from './types';
+import { extractTweetId } from './urls';
+
+// Most keyframes sampled per GIF; each one is a seek plus an element screenshot
+const MAX_GIF_KEYFRAMES = 4;
+
+// Matches a tweet under any known markup generation
+const ANY_TWEET_SELECTOR = TWEET_STRATEGIES.map(strategy => strategy.selectors.tweet).join(', ');
+
+// X's "this page doesn't exist" state, shown instead of a deleted post
+const ERROR_DETAIL_SELECTOR = '[data-testid="error-detail"]';
+
+export interface TweetScrapeOptions {
+  /** Number of frames to sample from each GIF in the tweet (0 to skip) */
+  gifKeyframes?: number;
+}
+
+export async function scrapeTweet(
+  tweetUrl: string,
+  auth: AuthCookies,
+  browser?: Browser,
+  options: TweetScrapeOptions = {},
+): Promise<TweetData> {
+  return withPage(browser, async (page) => {
+    await setupPage(page, auth);
+
+    await page.goto(tweetUrl, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+
+    // Wait for tweet content to load
+    await page.waitForSelector(`${ANY_TWEET_SELECTOR}, ${ERROR_DETAIL_SELECTOR}`, { timeout: 15000 }).catch(() => {});
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    await assertSession(page);
+
+    const focalId = extractTweetId(tweetUrl);
+    const parsers = await page.evaluateHandle(createTweetParsers);
+    const { result: tweetData, strategy } = await extractWithFallback(
+      TWEET_STRATEGIES,
+      selectors => page.evaluate(extractTweetPage, focalId, selectors, parsers),
+      tweet => !!tweet && (!!tweet.text || tweet.images.length > 0 || !!tweet.videos?.length || !!tweet.quotedTweet),
+    );
+
+    if (!tweetData) {
+      const notice = await page.evaluate(extractUnavailableNotice);
+      if (notice) {
+        throw new ContentUnavailableError(`X reports the tweet as unavailable ("${notice}"). It may be private or deleted.`);
+      }
+      throw new Error('Could not extract tweet content');
+    }
+    tweetData.capturedAt = new Date().toISOString();
+    tweetData.extractor = strategy ? strategyId(strategy) : undefined;
+
+    const keyframeCount = Math.min(Math.max(Math.floor(options.gifKeyframes || 0), 0), MAX_GIF_KEYFRAMES);
+    if (keyframeCount > 0 && tweetData.videos?.some(video => video.kind === 'gif')) {
+      await captureGifKeyframes(page, tweetData.videos, keyframeCount);
+    }
+
+    return tweetData;
+  });
+}
+
+/**
+ * Samples evenly spaced frames from each GIF by seeking its looping video and
+ * screenshotting the player, which sidesteps canvas cross-origin restrictions.
+ */
+async function captureGifKeyframes(page: Page, videos: TweetVideo[], count: number): Promise<void> {
+  for (let index = 0; index < videos.length; index++) {
+    const video = videos[index];
+    if (video.kind !== 'gif') continue;
+
+    const player = await page.$(`[data-capture-index="${index}"]`);
+    if (!player) continue;
+
+    try {
+      const duration = await player.evaluate(el => {
+        const videoEl = el.querySelector('video');
+        return videoEl && isFinite(videoEl.duration) ? videoEl.duration : 0;
+      });
+      if (!duration) continue;
+
+      const keyframes: string[] = [];
+      for (let frame = 1; frame <= count; frame++) {
+        await player.evaluate((el, time) => new Promise<void>(resolve => {
+          const videoEl = el.querySelector('video')!;
+          videoEl.pause();
+          videoEl.addEventListener('seeked', () => resolve(), { once: true });
+          videoEl.currentTime = time;
+          setTimeout(resolve, 2000);
+        }), (duration * frame) / (count + 1));
+
+        const screenshot = await player.screenshot({ type: 'jpeg', quality: 80, encoding: 'base64' });
+        keyframes.push(`data:image/jpeg;base64,${screenshot}`);
+      }
+      video.keyframes = keyframes;
+    } catch (error) {
+      console.error('Could not capture GIF keyframes:', error);
+    } finally {
+      await player.dispose();
+    }
+  }
+}
+
+// Upper bound on tweets collected in thread mode, to keep scroll time bounded
+const MAX_THREAD_TWEETS = 100;
+
+export async function scrapeThread(tweetUrl: string, auth: AuthCookies, browser?: Browser): Promise<TweetData[]> {
+  const focalId = extractTweetId(tweetUrl);
+  return withPage(browser, async (page) => {
+    await setupPage(page, auth);
+
+    await page.goto(tweetUrl, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+
+    await page.waitForSelector(ANY_TWEET_SELECTOR, { timeout: 15000 }).catch(() => {});
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    await assertSession(page);
+
+    // Pick the strategy once, on the first screen, and keep it while scrolling
+    const parsers = await page.evaluateHandle(createTweetParsers);
+    const { result: initial, strategy } = await extractWithFallback(
+      TWEET_STRATEGIES,
+      selectors => page.evaluate(extractTimelineTweets, selectors, parsers),
+      visible => visible.some(entry => entry.text || entry.images.length > 0 || !!entry.videos?.length),
+    );
+    const selectors: TweetSelectors = (strategy || TWEET_STRATEGIES[0]).selectors;
+
+    // The conversation timeline is virtualized, so tweets are merged by ID across scroll steps
+    const entries: ThreadEntry[] = [];
+    let idleRounds = 0;
+
+    for (let round = 0; round < 40 && idleRounds < 3; round++) {
+      const visible = round === 0 ? initial : await page.evaluate(extractTimelineTweets, selectors, parsers);
+
+      // Insert unseen tweets right after the previous visible tweet to keep document order
+      let cursor = -1;
+      let added = 0;
+      for (const entry of visible) {
+        const existing = entries.findIndex(e => e.id === entry.id);
+        if (existing !== -1) {
+          cursor = existing;
+        } else {
+          entries.splice(cursor + 1, 0, entry);
+          cursor++;
+          added++;
+        }
+      }
+      idleRounds = added === 0 ? idleRounds + 1 : 0;
+
+      const chain = collectAuthorChain(entries, focalId);
+      if (chain.complete || chain.tweets.length >= MAX_THREAD_TWEETS) {
+        break;
+      }
+
+      await page.evaluate(() => window.scrollBy(0, window.innerHeight));
+      await new Promise(resolve => setTimeout(resolve, 1500));
+    }
+
+    const { tweets } = collectAuthorChain(entries, focalId);
+    if (tweets.length === 0) {
+      throw new Error('Could not extract thread content');
+    }
+
+    const extractor = strategy ? strategyId(strategy) : undefined;
+    return tweets.slice(0, MAX_THREAD_TWEETS).map(({ id: _id, ...tweet }) => ({ ...tweet, extractor }));
+  });
+}
+
+/**
+ * Returns the run of consecutive tweets by the focal tweet's author, walking up
+ * through ancestors and down through replies. `complete` is set once a reply by
+ * someone else has been seen below the run.
+ */
+function collectAuthorChain(entries: ThreadEntry[], focalId: string | null): { tweets: ThreadEntry[]; complete: boolean } {
+  const focalIndex = entries.findIndex(e => e.id === focalId);
+  if (focalIndex === -1) {
+    return { tweets: [], complete: false };
+  }
+
+  const author = entries[focalIndex].authorHandle;
+  let start = focalIndex;
+  while (start > 0 && entries[start - 1].authorHandle === author) {
+    start--;
+  }
+  let end = focalIndex;
+  while (end < entries.length - 1 && entries[end + 1].authorHandle === author) {
+    end++;
+  }
+
+  return {
+    tweets: entries.slice(start, end + 1),
+    complete: end < entries.length - 1,
+  };
+}
+
+// Upper bound on tweets collected from a profile timeline or collection in one load
+export const MAX_TIMELINE_TWEETS = 100;
+
+export interface TimelineScrapeOptions {
+  /** Most tweets to collect, newest first */
+  limit?: number;
+  /** Include the account's replies, read from its Replies tab */
+  replies?: boolean;
+  /** Include other accounts' tweets the account reposted */
+  reposts?: boolean;
+  /** Only tweets posted at or after this ISO time; scrolling stops once past it */
+  since?: string;
+  /** Only tweets posted before this ISO time */
+  until?: string;
+}
+
+export interface CollectionScrapeOptions {
+  /** Most tweets to collect, in the order the page lists them */
+  limit?: number;
+}
+
+// Status IDs grow over time, so they order tweets regardless of timeline position
+function compareStatusIds(a: string, b: string): number {
+  return a.length - b.length || a.localeCompare(b);
+}
+
+function clampLimit(limit: number | undefined): number {
+  return Math.min(Math.max(Math.floor(limit || 20), 1), MAX_TIMELINE_TWEETS);
+}
+
+interface TimelineCollectOptions {
+  limit: number;
+  /** Whether a visible entry belongs in the result */
+  accept: (entry: ThreadEntry) => boolean;
+  /** Whether a visible entry shows everything further down is out of range */
+  done?: (entry: ThreadEntry) => boolean;
+}
+
+/**
+ * Loads a timeline page and scrolls it until `limit` unpinned entries are
+ * accepted, the page stops growing, or `done` says to stop. Entries come back
+ * in the order they first appeared.
+ */
+async function collectTimeline(page: Page, url: string, auth: AuthCookies, options: TimelineCollectOptions): Promise<ThreadEntry[]> {
+  await setupPage(page, auth);
+
+  await page.goto(url, {
+    waitUntil: 'networkidle2',
+    timeout: 30000,
+  });
+
+  await page.waitForSelector(ANY_TWEET_SELECTOR, { timeout: 15000 }).catch(() => {});
+  await new Promise(resolve => setTimeout(resolve, 2000));
+  await assertSession(page);
+
+  const parsers = await page.evaluateHandle(createTweetParsers);
+  const { result: initial, strategy } = await extractWithFallback(
+    TWEET_STRATEGIES,
+    selectors => page.evaluate(extractTimelineTweets, selectors, parsers),
+    visible => visible.length > 0,
+  );
+  const selectors: TweetSelectors = (strategy || TWEET_STRATEGIES[0]).selectors;
+
+  // Timelines are virtualized, so tweets are merged by ID across scroll steps
+  const tweets = new Map<string, ThreadEntry>();
+  // Everything the page has shown, kept or not; skipped tweets still mean it's loading more
+  const seen = new Set<string>();
+  // A pinned tweet sits above the timeline out of order, so it doesn't count
+  // toward the limit; the caller sorts it into place or drops it
+  let counted = 0;
+  let idleRounds = 0;
+  let finished = false;
+
+  for (let round = 0; round < 40 && idleRounds < 3 && !finished; round++) {
+    const visible = round === 0 ? initial : await page.evaluate(extractTimelineTweets, selectors, parsers);
+
+    let fresh = 0;
+    for (const entry of visible) {
+      finished = finished || Boolean(options.done?.(entry));
+      if (seen.has(entry.id)) continue;
+      seen.add(entry.id);
+      fresh++;
+      if (!options.accept(entry)) continue;
+      tweets.set(entry.id, entry);
+      if (!entry.pinned) counted++;
+    }
+    idleRounds = fresh === 0 ? idleRounds + 1 : 0;
+    if (counted >= options.limit) {
+      break;
+    }
+
+    await page.evaluate(() => window.scrollBy(0, window.innerHeight));
+    await new Promise(resolve => setTimeout(resolve, 1500));
+  }
+
+  const extractor = strategy ? strategyId(strategy) : undefined;
+  return Array.from(tweets.values()).map(({ pinned: _pinned, ...tweet }) => ({ ...tweet, extractor }));
+}
+
+/**
+ * Collects the latest tweets on a profile's timeline, newest first. Reposts
+ * are left out unless asked for, and a pinned tweet is sorted into place by
+ * its ID. Reposts are kept or dropped by `since`/`until` on the original
+ * tweet's date, which is the only one the timeline shows.
+ */
+export async function scrapeProfileTimeline(
+  handle: string,
+  auth: AuthCookies,
+  browser?: Browser,
+  options: TimelineScrapeOptions = {},
+): Promise<ThreadEntry[]> {
+  const limit = clampLimit(options.limit);
+  const ownHandle = `@${handle}`.toLowerCase();
+  const since = options.since ? Date.parse(options.since) : -Infinity;
+  const until = options.until ? Date.parse(options.until) : Infinity;
+
+  const belongs = (entry: ThreadEntry) => (entry.repostedBy
+    ? Boolean(options.reposts) && entry.repostedBy.toLowerCase() === ownHandle
+    : entry.authorHandle.toLowerCase() === ownHandle);
+  const inRange = (entry: ThreadEntry) => {
+    const posted = Date.parse(entry.date);
+    return isNaN(posted) || (posted >= since && posted < until);
+  };
+
+  const tweets = await withPage(browser, page => collectTimeline(
+    page,
+    `https://x.com/${handle}${options.replies ? '/with_replies' : ''}`,
+    auth,
+    {
+      limit,
+      accept: entry => belongs(entry) && inRange(entry),
+      // The timeline runs newest first, so the account's own older tweet means the range is done
+      done: entry => !entry.pinned && !entry.repostedBy && entry.authorHandle.toLowerCase() === ownHandle && Date.parse(entry.date) < since,
+    },
+  ));
+
+  return tweets.sort((a, b) => compareStatusIds(b.id, a.id)).slice(0, limit);
+}
+
+/**
+ * Collects the tweets on a bookmarks, likes or List page, in the order the
+ * page lists them (most recently bookmarked or liked first).
+ */
+export async function scrapeCollection(
+  url: string,
+  auth: AuthCookies,
+  browser?: Browser,
+  options: CollectionScrapeOptions = {},
+): Promise<ThreadEntry[]> {
+  const limit = clampLimit(options.limit);
+  const tweets = await withPage(browser, page => collectTimeline(page, url, auth, { limit, accept: () => true }));
+  return tweets.slice(0, limit);
+}
+
+export async function scrapeArticle(articleUrl: string, auth?: AuthCookies, browser?: Browser): Promise<ArticleData> {
+  return withPage(browser, async (page) => {
+    await setupPage(page, auth);
+
+    await page.goto(articleUrl, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+
+    // Wait for page to load - try multiple selectors
+    await page.waitForSelector('article, [data-testid="article"], main', { timeout: 20000 }).catch(() => {});
+    if (auth?.authToken) {
+      await assertSession(page);
+    }
+
+    // Scroll down to load all content
+    await page.evaluate(async () => {
+      await new Promise<void>((resolve) => {
+        let totalHeight = 0;
+        const distance = 500;
+        const timer = setInterval(() => {
+          window.scrollBy(0, distance);
+          totalHeight += distance;
+          if (totalHeight >= document.body.scrollHeight || totalHeight > 10000) {
+            clearInterval(timer);
+            window.scrollTo(0, 0);
+            resolve();
+          }
+        }, 100);
+      });
+    });
+
+    // Give more time for dynamic content
+    await new Promise(resolve => setTimeout(resolve, 3000));
+
+    const { result: articleData, strategy } = await extractWithFallback(
+      ARTICLE_STRATEGIES,
+      selectors => page.evaluate(extractArticlePage, selectors),
+      article => article.content.length > 0,
+    );
+    const extractor = strategy ? strategyId(strategy) : undefined;
+
+    return { ...articleData, extractor };
+  });
+}
+
+/**
+ * Loads the page as a reader would see it and takes a full-page PNG, kept
+ * as capture evidence next to the extracted content. Without `auth` this is
+ * the logged-out view.
+ */
+export async function captureScreenshot(url: string, auth?: AuthCookies, browser?: Browser): Promise<Buffer> {
+  return withPage(browser, async (page) => {
+    await setupPage(page, auth);
+
+    await page.goto(url, {
+      waitUntil: 'networkidle2',
+      timeout: 30000,
+    });
+
+    await page.waitForSelector(`${ANY_TWEET_SELECTOR}, [data-testid="article"], main`, { timeout: 15000 }).catch(() => {});
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    const screenshot = await page.screenshot({ type: 'png', fullPage: true });
+    return Buffer.from(screenshot);
+  });
+}
@@ -0,0 +1,58 @@
+import type { Page } from 'puppeteer';
+
+export type SessionProblem = 'expired' | 'locked' | 'rate-limited';
+
+/**
+ * Thrown by the scrapers when X rejects the session cookies they were given,
+ * so callers can rotate to another account or tell the user to refresh theirs.
+ */
+export class SessionError extends Error {
+  constructor(public readonly problem: SessionProblem, message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Inspects a page loaded with session cookies for signs that X didn't accept
+ * them: a redirect to the login flow, the logged-out page chrome, an account
+ * lock or suspension notice, or a rate limit message.
+ */
+export async function detectSessionProblem(page: Page): Promise<SessionError | null> {
+  const { pathname } = new URL(page.url());
+
+  if (/^\/(login|i\/flow\/login|i\/flow\/signup)\b/.test(pathname)) {
+    return new SessionError('expired', 'X redirected to the login page; the session has expired or was logged out.');
+  }
+  if (/^\/account\/(access|locked|suspended)\b/.test(pathname)) {
+    return new SessionError('locked', 'X reports this account as locked or suspended.');
+  }
+
+  const { loggedOut, text } = await page.evaluate(() => ({
+    loggedOut: !!document.querySelector('[data-testid="loginButton"], [data-testid="login"], a[href="/login"]'),
+    text: document.body?.innerText.slice(0, 3000) || '',
+  }));
+
+  if (/Your account is (temporarily )?(locked|suspended)|account has been locked/i.test(text)) {
+    return new SessionError('locked', 'X reports this account as locked or suspended.');
+  }
+  if (/Rate limit exceeded/i.test(text)) {
+    return new SessionError('rate-limited', 'X rate limited this account.');
+  }
+  if (loggedOut) {
+    return new SessionError('expired', 'X served the logged-out page; the session has expired or was logged out.');
+  }
+
+  return null;
+}
+
+/**
+ * Throws a `SessionError` if the page shows the session was rejected. Only
+ * meaningful for pages loaded with cookies.
+ */
+export async function assertSession(page: Page): Promise<void> {
+  const problem = await detectSessionProblem(page);
+  if (problem) {
+    throw problem;
+  }
+}
@@ -0,0 +1,179 @@
+import { decodeEntities } from './text';
+import type { TextSegment, TweetData, TweetVideo } from './types';
+
+// The public endpoint behind X's embedded tweets. Point it elsewhere (e.g. a
+// local mock server) with SYNDICATION_BASE_URL.
+const SYNDICATION_BASE_URL = process.env.SYNDICATION_BASE_URL || 'https://cdn.syndication.twimg.com';
+const SYNDICATION_TIMEOUT_MS = 10000;
+
+interface Entity {
+  indices: [number, number];
+}
+
+interface SyndicatedUser {
+  name: string;
+  screen_name: string;
+  profile_image_url_https?: string;
+}
+
+interface SyndicatedMedia {
+  type: 'photo' | 'video' | 'animated_gif';
+  media_url_https: string;
+  video_info?: { duration_millis?: number };
+}
+
+/** The subset of the syndication payload we read */
+interface SyndicatedTweet {
+  __typename?: string;
+  id_str: string;
+  text: string;
+  created_at: string;
+  display_text_range?: [number, number];
+  user: SyndicatedUser;
+  entities?: {
+    hashtags?: (Entity & { text: string })[];
+    symbols?: (Entity & { text: string })[];
+    user_mentions?: (Entity & { screen_name: string })[];
+    urls?: (Entity & { expanded_url: string })[];
+  };
+  mediaDetails?: SyndicatedMedia[];
+  favorite_count?: number;
+  conversation_count?: number;
+  in_reply_to_screen_name?: string;
+  quoted_tweet?: SyndicatedTweet;
+  parent?: SyndicatedTweet;
+}
+
+/**
+ * The endpoint wants a token derived from the tweet ID; this mirrors what the
+ * embed script computes.
+ */
+function syndicationToken(tweetId: string): string {
+  return ((Number(tweetId) / 1e15) * Math.PI).toString(36).replace(/(0+|\.)/g, '');
+}
+
+function formatDuration(millis: number | undefined): string | null {
+  if (!millis) return null;
+  const totalSeconds = Math.round(millis / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Rebuilds the inline segments from the entity index ranges. Indices count
+ * code points, not UTF-16 units, and the text is HTML-escaped.
+ */
+function buildSegments(tweet: SyndicatedTweet): TextSegment[] {
+  const chars = Array.from(tweet.text);
+  const [start, end] = tweet.display_text_range || [0, chars.length];
+  const entities = tweet.entities || {};
+
+  const ranges: { indices: [number, number]; segment: TextSegment }[] = [
+    ...(entities.user_mentions || []).map(mention => ({
+      indices: mention.indices,
+      segment: { type: 'mention' as const, text: `@${mention.screen_name}`, url: `https://x.com/${mention.screen_name}` },
+    })),
+    ...(entities.hashtags || []).map(tag => ({
+      indices: tag.indices,
+      segment: { type: 'hashtag' as const, text: `#${tag.text}`, url: `https://x.com/hashtag/${encodeURIComponent(tag.text)}` },
+    })),
+    ...(entities.symbols || []).map(symbol => ({
+      indices: symbol.indices,
+      segment: { type: 'cashtag' as const, text: `$${symbol.text}`, url: `https://x.com/search?q=${encodeURIComponent(`$${symbol.text}`)}` },
+    })),
+    ...(entities.urls || []).map(link => ({
+      indices: link.indices,
+      segment: { type: 'link' as const, text: link.expanded_url, url: link.expanded_url },
+    })),
+  ]
+    .filter(range => range.indices[0] >= start && range.indices[1] <= end)
+    .sort((a, b) => a.indices[0] - b.indices[0]);
+
+  const segments: TextSegment[] = [];
+  const pushText = (from: number, to: number) => {
+    const text = decodeEntities(chars.slice(from, to).join(''));
+    if (text) segments.push({ type: 'text', text });
+  };
+
+  let cursor = start;
+  for (const range of ranges) {
+    if (range.indices[0] < cursor) continue;
+    pushText(cursor, range.indices[0]);
+    segments.push(range.segment);
+    cursor = range.indices[1];
+  }
+  pushText(cursor, end);
+
+  return segments;
+}
+
+function toTweetData(tweet: SyndicatedTweet): TweetData {
+  const handle = `@${tweet.user.screen_name}`;
+  const segments = buildSegments(tweet);
+  const media = tweet.mediaDetails || [];
+
+  const videos: TweetVideo[] = media
+    .filter(item => item.type !== 'photo')
+    .map((item, index) => ({
+      kind: item.type === 'animated_gif' ? 'gif' : 'video',
+      posterUrl: item.media_url_https,
+      duration: item.type === 'animated_gif' ? null : formatDuration(item.video_info?.duration_millis),
+      url: `https://x.com/${tweet.user.screen_name}/status/${tweet.id_str}/video/${index + 1}`,
+    }));
+
+  return {
+    authorName: tweet.user.name,
+    authorHandle: handle,
+    authorAvatar: tweet.user.profile_image_url_https?.replace('_normal', '_400x400') || null,
+    text: segments.map(segment => segment.text).join('').trim(),
+    segments,
+    date: tweet.created_at,
+    images: media.filter(item => item.type === 'photo').map(item => item.media_url_https),
+    videos,
+    // The endpoint only counts replies and likes; reposts, bookmarks and views
+    // are only read from the tweet page in a signed-in browser
+    metrics: {
+      replies: tweet.conversation_count ?? null,
+      reposts: null,
+      likes: tweet.favorite_count ?? null,
+      bookmarks: null,
+      views: null,
+    },
+    quotedTweet: tweet.quoted_tweet ? toTweetData(tweet.quoted_tweet) : null,
+    parentTweet: tweet.parent ? toTweetData(tweet.parent) : null,
+    replyingTo: tweet.in_reply_to_screen_name ? [`@${tweet.in_reply_to_screen_name}`] : [],
+  };
+}
+
+/**
+ * Fetches a public tweet without any session cookies. Returns null when the
+ * tweet isn't publicly available (protected, deleted, age-restricted, or
+ * otherwise tombstoned); throws when the endpoint itself fails.
+ */
+export async function fetchSyndicatedTweet(tweetId: string, baseUrl = SYNDICATION_BASE_URL): Promise<TweetData | null> {
+  const url = new URL('/tweet-result', baseUrl);
+  url.searchParams.set('id', tweetId);
+  url.searchParams.set('lang', 'en');
+  url.searchParams.set('token', syndicationToken(tweetId));
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(SYNDICATION_TIMEOUT_MS) });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Syndication request failed with status ${response.status}`);
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return null;
+  }
+  const tweet = JSON.parse(text) as SyndicatedTweet;
+  if (tweet.__typename === 'TweetTombstone' || !tweet.user) {
+    return null;
+  }
+
+  return { ...toTweetData(tweet), capturedAt: new Date().toISOString() };
+}
@@ -0,0 +1,663 @@
+import type { DiffLine } from './diff';
+import { inlineText } from './text';
+import { resolveTheme, themeStyles, type BrandOptions, type Theme } from './themes';
+import type { ArticleBlock, ArticleData, TextSegment, TweetData, TweetVideo } from './types';
+
+export function formatDate(dateString: string): string {
+  if (!dateString) return '';
+  try {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+    });
+  } catch {
+    return dateString;
+  }
+}
+
+/** A capture time to the second in UTC, e.g. `2024-05-13 16:20:00 UTC` */
+export function formatCaptureTime(capturedAt: string): string {
+  const date = new Date(capturedAt);
+  return isNaN(date.getTime()) ? capturedAt : `${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+}
+
+export function cleanTweetText(text: string): string {
+  return text.replace(/https?:\/\/t\.co\/\w+/g, '').trim();
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;')
+    .replace(/\n/g, '<br>');
+}
+
+const TWEET_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--font);
+      padding: 40px;
+      background: var(--background);
+      color: var(--text);
+      line-height: 1.5;
+    }
+    .container { max-width: 600px; margin: 0 auto; }
+    .header { display: flex; align-items: center; margin-bottom: 16px; }
+    .avatar { width: 48px; height: 48px; border-radius: 50%; margin-right: 12px; object-fit: cover; }
+    .author-info { display: flex; flex-direction: column; }
+    .author-name { font-weight: 700; font-size: 15px; color: var(--text); }
+    .author-handle { font-size: 14px; color: var(--muted); }
+    .tweet-text { font-size: 17px; line-height: 1.5; margin-bottom: 16px; white-space: pre-wrap; word-wrap: break-word; }
+    .tweet-text a { color: var(--link); text-decoration: none; word-break: break-all; }
+    .emoji { width: 1.2em; height: 1.2em; margin: 0 0.05em; vertical-align: -0.2em; }
+    .tweet-image { max-width: 100%; border-radius: 16px; margin-bottom: 12px; display: block; }
+    .tweet-date { font-size: 14px; color: var(--muted); margin-top: 16px; padding-top: 16px; border-top: 1px solid var(--divider); }
+    .tweet-metrics { display: flex; flex-wrap: wrap; gap: 4px 20px; font-size: 14px; color: var(--muted); margin-top: 12px; padding-top: 12px; border-top: 1px solid var(--divider); }
+    .tweet-metrics strong { color: var(--text); font-weight: 700; }
+    .captured-at { flex-basis: 100%; font-size: 12px; }
+    .thread-tweet { margin-bottom: 32px; break-inside: avoid-page; }
+    .thread-index { font-size: 13px; font-weight: 700; color: var(--muted); margin-bottom: 8px; }
+    .replying-to { font-size: 14px; color: var(--muted); margin: -8px 0 12px 0; }
+    .replying-to span { color: var(--link); }
+    .parent-tweet { display: flex; margin-bottom: 4px; }
+    .parent-rail { display: flex; flex-direction: column; align-items: center; margin-right: 12px; }
+    .parent-rail .avatar { margin-right: 0; }
+    .parent-line { flex: 1; width: 2px; background: var(--border); margin-top: 4px; }
+    .parent-content { flex: 1; min-width: 0; padding-bottom: 16px; }
+    .parent-content .tweet-text { font-size: 15px; margin-bottom: 8px; }
+    .card-header { display: flex; align-items: center; gap: 4px; font-size: 15px; margin-bottom: 4px; flex-wrap: wrap; }
+    .card-header .author-handle, .card-date { font-size: 15px; color: var(--muted); }
+    .quoted-tweet { border: 1px solid var(--border); border-radius: 16px; padding: 12px; margin-bottom: 16px; break-inside: avoid; }
+    .quoted-tweet .avatar { width: 20px; height: 20px; margin-right: 4px; }
+    .quoted-tweet .tweet-text { font-size: 15px; margin-bottom: 8px; }
+    .quoted-tweet .tweet-image { border-radius: 12px; margin-bottom: 0; }
+    .tweet-video { position: relative; margin-bottom: 12px; break-inside: avoid; }
+    .tweet-video .tweet-image { margin-bottom: 0; }
+    .video-placeholder { width: 100%; padding-top: 56.25%; border-radius: 16px; background: #0f1419; }
+    .play-badge { position: absolute; top: 50%; left: 50%; width: 64px; height: 64px; margin: -32px 0 0 -32px; border-radius: 50%; background: rgba(29, 155, 240, 0.9); border: 4px solid white; }
+    .play-badge::after { content: ''; position: absolute; top: 16px; left: 22px; border-style: solid; border-width: 12px 0 12px 20px; border-color: transparent transparent transparent white; }
+    .video-badge { position: absolute; left: 12px; bottom: 12px; padding: 0 6px; border-radius: 4px; background: rgba(0, 0, 0, 0.77); color: white; font-size: 13px; font-weight: 700; line-height: 20px; }
+    .video-caption { font-size: 13px; color: var(--muted); margin: -4px 0 12px 0; word-break: break-all; }
+    .video-caption a { color: var(--link); text-decoration: none; }
+    .video-keyframes { display: flex; gap: 4px; margin-bottom: 12px; }
+    .video-keyframes img { flex: 1; min-width: 0; border-radius: 8px; }
+  `;
+
+export interface RenderOptions {
+  /** Colors, fonts, layout and branding; the server's default theme if omitted */
+  theme?: Theme;
+}
+
+function renderBrandHeader(brand: BrandOptions): string {
+  return `<div class="brand-header">
+      ${brand.logo ? `<img src="${brand.logo}" alt="${escapeHtml(brand.name)}" />` : ''}
+      <span>${escapeHtml(brand.name)}</span>
+    </div>`;
+}
+
+/** Wraps a template's body in the shared document shell, with theme styles layered over `styles` */
+function renderPage(styles: string, content: string, theme: Theme = resolveTheme(), title = ''): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  ${title ? `<title>${escapeHtml(title)}</title>` : ''}
+  ${theme.fontUrl ? `<link rel="stylesheet" href="${escapeHtml(theme.fontUrl)}">` : ''}
+  <style>${styles}</style>
+  <style>${themeStyles(theme)}</style>
+</head>
+<body>
+  <div class="container">
+    ${theme.brand ? renderBrandHeader(theme.brand) : ''}
+    ${content}
+    ${theme.brand ? `<div class="brand-footer">Captured with Tweets to PDF · ${escapeHtml(theme.brand.name)}</div>` : ''}
+  </div>
+</body>
+</html>`;
+}
+
+function renderTweetHeader(tweetData: TweetData): string {
+  return `<div class="header">
+      ${tweetData.authorAvatar ? `<img src="${tweetData.authorAvatar}" class="avatar" alt="Avatar" />` : ''}
+      <div class="author-info">
+        <span class="author-name">${escapeHtml(tweetData.authorName)}</span>
+        <span class="author-handle">${escapeHtml(tweetData.authorHandle)}</span>
+      </div>
+    </div>`;
+}
+
+function renderCardHeader(tweetData: TweetData, showAvatar: boolean): string {
+  return `<div class="card-header">
+      ${showAvatar && tweetData.authorAvatar ? `<img src="${tweetData.authorAvatar}" class="avatar" alt="Avatar" />` : ''}
+      <span class="author-name">${escapeHtml(tweetData.authorName)}</span>
+      <span class="author-handle">${escapeHtml(tweetData.authorHandle)}</span>
+      ${tweetData.date ? `<span class="card-date">· ${formatDate(tweetData.date)}</span>` : ''}
+    </div>`;
+}
+
+function renderVideo(video: TweetVideo): string {
+  const label = video.kind === 'gif' ? 'GIF' : 'Video';
+  const badge = video.kind === 'gif' || video.duration
+    ? `<span class="video-badge">${escapeHtml(video.kind === 'gif' ? 'GIF' : video.duration || '')}</span>`
+    : '';
+  const poster = video.posterUrl
+    ? `<img src="${video.posterUrl}" class="tweet-image" alt="${label} poster" />`
+    : '<div class="video-placeholder"></div>';
+  const frame = `<div class="tweet-video">${poster}<span class="play-badge"></span>${badge}</div>`;
+
+  const keyframesHtml = video.keyframes?.length
+    ? `<div class="video-keyframes">${video.keyframes.map(src => `<img src="${src}" alt="GIF frame" />`).join('')}</div>`
+    : '';
+
+  if (!video.url) {
+    return frame + keyframesHtml;
+  }
+
+  // Printed copies can't be clicked, so the link is also spelled out
+  const href = escapeHtml(video.url);
+  return `<a href="${href}">${frame}</a>
+    ${keyframesHtml}
+    <div class="video-caption">${label}: <a href="${href}">${href}</a></div>`;
+}
+
+function renderSegments(segments: TextSegment[]): string {
+  return segments
+    .map(segment => {
+      switch (segment.type) {
+        case 'text':
+          return escapeHtml(segment.text);
+        case 'emoji':
+          return `<img src="${segment.imageUrl}" class="emoji" alt="${escapeHtml(segment.text)}" />`;
+        default:
+          return `<a href="${escapeHtml(segment.url)}">${escapeHtml(segment.text)}</a>`;
+      }
+    })
+    .join('')
+    .trim();
+}
+
+function renderTweetContent(tweetData: TweetData): string {
+  const textHtml = tweetData.segments?.length
+    ? renderSegments(tweetData.segments)
+    : escapeHtml(cleanTweetText(tweetData.text));
+
+  const imagesHtml = tweetData.images
+    .map(url => `<img src="${url}" class="tweet-image" alt="Tweet image" />`)
+    .join('\n');
+
+  const videosHtml = (tweetData.videos || []).map(renderVideo).join('\n');
+
+  return `${textHtml ? `<div class="tweet-text">${textHtml}</div>` : ''}
+    ${imagesHtml}
+    ${videosHtml}`;
+}
+
+function renderQuotedTweet(quoted: TweetData): string {
+  return `<div class="quoted-tweet">
+      ${renderCardHeader(quoted, true)}
+      ${renderTweetContent(quoted)}
+    </div>`;
+}
+
+function renderParentTweet(parent: TweetData): string {
+  return `<div class="parent-tweet">
+      <div class="parent-rail">
+        ${parent.authorAvatar ? `<img src="${parent.authorAvatar}" class="avatar" alt="Avatar" />` : ''}
+        <div class="parent-line"></div>
+      </div>
+      <div class="parent-content">
+        ${renderCardHeader(parent, false)}
+        ${renderTweetContent(parent)}
+        ${parent.quotedTweet ? renderQuotedTweet(parent.quotedTweet) : ''}
+      </div>
+    </div>`;
+}
+
+function renderReplyingTo(tweetData: TweetData): string {
+  // The parent card already shows who is being replied to
+  if (tweetData.parentTweet || !tweetData.replyingTo?.length) return '';
+  const handles = tweetData.replyingTo.map(handle => `<span>${escapeHtml(handle)}</span>`).join(' ');
+  return `<div class="replying-to">Replying to ${handles}</div>`;
+}
+
+export interface TweetRenderOptions extends RenderOptions {
+  /** Leave out the engagement counts footer */
+  hideMetrics?: boolean;
+}
+
+function renderMetrics(tweetData: TweetData): string {
+  const { metrics, capturedAt } = tweetData;
+  const items: [number | null, string][] = metrics
+    ? [
+      [metrics.replies, 'Replies'],
+      [metrics.reposts, 'Reposts'],
+      [metrics.likes, 'Likes'],
+      [metrics.bookmarks, 'Bookmarks'],
+      [metrics.views, 'Views'],
+    ]
+    : [];
+  const shown = items.filter((item): item is [number, string] => item[0] !== null);
+  if (shown.length === 0) return '';
+
+  return `<div class="tweet-metrics">
+      ${shown.map(([value, label]) => `<span><strong>${value.toLocaleString('en-US')}</strong> ${label}</span>`).join('\n')}
+      ${capturedAt ? `<span class="captured-at">Counts as of ${formatDate(capturedAt)}</span>` : ''}
+    </div>`;
+}
+
+function renderTweetBody(tweetData: TweetData, options: TweetRenderOptions): string {
+  return `${renderReplyingTo(tweetData)}
+    ${renderTweetContent(tweetData)}
+    ${tweetData.quotedTweet ? renderQuotedTweet(tweetData.quotedTweet) : ''}
+    ${tweetData.date ? `<div class="tweet-date">${formatDate(tweetData.date)}</div>` : ''}
+    ${options.hideMetrics ? '' : renderMetrics(tweetData)}`;
+}
+
+export function generateTweetHTML(tweetData: TweetData, options: TweetRenderOptions = {}): string {
+  return renderPage(TWEET_STYLES, `
+    ${tweetData.parentTweet ? renderParentTweet(tweetData.parentTweet) : ''}
+    ${renderTweetHeader(tweetData)}
+    ${renderTweetBody(tweetData, options)}`, options.theme);
+}
+
+export function generateThreadHTML(tweets: TweetData[], options: TweetRenderOptions = {}): string {
+  const tweetsHtml = tweets
+    .map((tweet, index) => `<div class="thread-tweet">
+      <div class="thread-index">${index + 1}/${tweets.length}</div>
+      ${renderTweetBody(tweet, options)}
+    </div>`)
+    .join('\n');
+
+  return renderPage(TWEET_STYLES, `
+    ${renderTweetHeader(tweets[0])}
+    ${tweetsHtml}`, options.theme);
+}
+
+export interface ProfileCover {
+  name: string;
+  handle: string;
+  avatar: string | null;
+  /** What was exported, e.g. "Posts from May 1, 2024 to June 1, 2024" */
+  description: string;
+  capturedAt: string;
+}
+
+export interface TimelinePost {
+  url: string;
+  tweet: TweetData;
+}
+
+const PROFILE_STYLES = `${TWEET_STYLES}
+    .profile-cover { display: flex; flex-direction: column; align-items: center; justify-content: center; min-height: 80vh; text-align: center; break-after: page; }
+    .profile-cover .avatar { width: 128px; height: 128px; margin: 0 0 20px 0; }
+    .profile-name { font-size: 32px; font-weight: 800; line-height: 1.2; }
+    .profile-handle { font-size: 18px; color: var(--muted); margin-bottom: 24px; }
+    .profile-description { font-size: 16px; }
+    .profile-captured { font-size: 13px; color: var(--muted); margin-top: 8px; }
+    .timeline-post { margin-bottom: 24px; padding-bottom: 24px; border-bottom: 1px solid var(--divider); break-inside: avoid-page; }
+    .timeline-post .tweet-date { margin-top: 8px; padding-top: 0; border-top: none; }
+    .reposted-by { font-size: 13px; font-weight: 700; color: var(--muted); margin-bottom: 8px; }
+    .post-link { font-size: 12px; color: var(--muted); word-break: break-all; margin-top: 8px; }
+    .post-link a { color: var(--link); text-decoration: none; }
+  `;
+
+/** A profile's posts in the order given, after a cover page naming the account */
+export function generateProfileHTML(cover: ProfileCover, posts: TimelinePost[], options: TweetRenderOptions = {}): string {
+  const postsHtml = posts
+    .map(({ url, tweet }) => `<div class="timeline-post">
+      ${tweet.repostedBy ? `<div class="reposted-by">Reposted by ${escapeHtml(tweet.repostedBy)}</div>` : ''}
+      ${renderTweetHeader(tweet)}
+      ${renderTweetBody(tweet, options)}
+      <div class="post-link"><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></div>
+    </div>`)
+    .join('\n');
+
+  return renderPage(PROFILE_STYLES, `
+    <div class="profile-cover">
+      ${cover.avatar ? `<img src="${cover.avatar}" class="avatar" alt="Avatar" />` : ''}
+      <h1 class="profile-name">${escapeHtml(cover.name || cover.handle)}</h1>
+      <div class="profile-handle">${escapeHtml(cover.handle)}</div>
+      <div class="profile-description">${escapeHtml(cover.description)}</div>
+      <div class="profile-captured">Captured ${escapeHtml(formatCaptureTime(cover.capturedAt))}</div>
+    </div>
+    ${postsHtml}`, options.theme, `Posts by ${cover.handle}`);
+}
+
+// The title is the only h1, so article headings start at h2
+function headingLevel(level: number): number {
+  return Math.min(Math.max(level, 2), 6);
+}
+
+/** Anchor for the block at `index`, linked from the contents page */
+function blockId(index: number): string {
+  return `block-${index + 1}`;
+}
+
+// Block markup comes pre-sanitized from scrapeArticle, so it's inserted as-is
+function renderArticleBlock(block: ArticleBlock, index: number): string {
+  switch (block.type) {
+    case 'heading': {
+      const level = headingLevel(block.level);
+      return `<h${level} id="${blockId(index)}" class="article-heading">${block.html}</h${level}>`;
+    }
+    case 'paragraph':
+      return `<p class="article-paragraph">${block.html}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag} class="article-list">${block.items.map(item => `<li>${item}</li>`).join('')}</${tag}>`;
+    }
+    case 'blockquote':
+      return `<blockquote class="article-quote">${block.html}</blockquote>`;
+    case 'code':
+      return `<pre class="article-code"${block.language ? ` data-language="${escapeHtml(block.language)}"` : ''}><code>${escapeHtml(block.code)}</code></pre>`;
+    case 'image':
+      return `
+      <figure class="article-figure">
+        <img src="${block.url}" class="article-image" alt="${escapeHtml(block.caption || 'Article image')}" />
+        ${block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : ''}
+      </figure>`;
+    case 'tweet':
+      return `
+      <div class="article-tweet">
+        <div class="article-tweet-author">
+          <span class="author-name">${escapeHtml(block.authorName || 'Unknown')}</span>
+          <span class="author-handle">${escapeHtml(block.authorHandle)}</span>
+        </div>
+        ${block.text ? `<div class="article-tweet-text">${escapeHtml(block.text).replace(/\n/g, '<br>')}</div>` : ''}
+        ${block.url ? `<a href="${escapeHtml(block.url)}" class="article-tweet-link">${escapeHtml(block.url)}</a>` : ''}
+      </div>`;
+    case 'divider':
+      return '<hr class="article-divider" />';
+  }
+}
+
+const ARTICLE_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--font);
+      padding: 40px;
+      background: var(--background);
+      color: var(--text);
+      line-height: 1.6;
+    }
+    .container { max-width: 680px; margin: 0 auto; }
+    .header { display: flex; align-items: center; margin-bottom: 24px; padding-bottom: 16px; border-bottom: 1px solid var(--divider); }
+    .avatar { width: 48px; height: 48px; border-radius: 50%; margin-right: 12px; object-fit: cover; }
+    .author-info { display: flex; flex-direction: column; }
+    .author-name { font-weight: 700; font-size: 15px; color: var(--text); }
+    .author-handle { font-size: 14px; color: var(--muted); }
+    .article-title { font-size: 32px; font-weight: 800; margin-bottom: 24px; line-height: 1.2; color: var(--text); }
+    .article-date { font-size: 14px; color: var(--muted); margin-top: 24px; padding-top: 16px; border-top: 1px solid var(--divider); }
+    .article-heading { font-weight: 700; margin: 28px 0 14px 0; color: var(--text); line-height: 1.3; }
+    h2.article-heading { font-size: 24px; }
+    h3.article-heading { font-size: 20px; }
+    h4.article-heading, h5.article-heading, h6.article-heading { font-size: 17px; }
+    .article-paragraph { font-size: 16px; line-height: 1.7; margin-bottom: 16px; color: var(--text); }
+    .article-list { font-size: 16px; line-height: 1.7; margin: 0 0 16px 24px; }
+    .article-list li { margin-bottom: 6px; }
+    .article-quote { font-size: 16px; line-height: 1.7; margin: 0 0 16px 0; padding: 4px 0 4px 16px; border-left: 4px solid var(--border); color: var(--muted); }
+    .article-code { font-family: Menlo, Consolas, "Liberation Mono", monospace; font-size: 13px; line-height: 1.5; background: var(--surface); border: 1px solid var(--divider); border-radius: 8px; padding: 12px 16px; margin: 0 0 16px 0; white-space: pre-wrap; word-wrap: break-word; }
+    .article-paragraph code, .article-list code, .article-quote code { font-family: Menlo, Consolas, "Liberation Mono", monospace; font-size: 14px; background: var(--surface); border-radius: 4px; padding: 1px 4px; }
+    .article-figure { margin: 20px 0; }
+    .article-image { max-width: 100%; border-radius: 12px; display: block; }
+    .article-figure figcaption { font-size: 14px; color: var(--muted); margin-top: 8px; text-align: center; }
+    .article-tweet { border: 1px solid var(--border); border-radius: 12px; padding: 12px 16px; margin: 0 0 16px 0; }
+    .article-tweet-author { display: flex; gap: 4px; align-items: baseline; margin-bottom: 4px; }
+    .article-tweet-text { font-size: 15px; line-height: 1.5; }
+    .article-tweet-link { font-size: 13px; word-break: break-all; }
+    .article-divider { border: none; border-top: 1px solid var(--divider); margin: 28px 0; }
+    .article-contents { break-after: page; }
+    .article-contents-heading { font-size: 20px; font-weight: 700; margin-bottom: 12px; }
+    .article-contents ol { list-style: none; }
+    .article-contents li { font-size: 15px; padding: 6px 0; border-bottom: 1px solid var(--divider); }
+    .article-contents .contents-level-3 { padding-left: 16px; }
+    .article-contents .contents-level-4, .article-contents .contents-level-5, .article-contents .contents-level-6 { padding-left: 32px; }
+    a { color: var(--link); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+  `;
+
+/**
+ * A contents list linking to each heading; Chromium keeps the links when
+ * printing, so it's clickable in the PDF. Empty when there are no headings.
+ */
+function renderArticleContents(content: ArticleBlock[]): string {
+  const entries = content.flatMap((block, index) =>
+    block.type === 'heading' ? [`<li class="contents-level-${headingLevel(block.level)}"><a href="#${blockId(index)}">${escapeHtml(inlineText(block.html))}</a></li>`] : []
+  );
+  if (entries.length === 0) return '';
+
+  return `<nav class="article-contents">
+      <div class="article-contents-heading">Contents</div>
+      <ol>${entries.join('')}</ol>
+    </nav>`;
+}
+
+export interface ArticleRenderOptions extends RenderOptions {
+  /** Start with a linked contents page listing the article's headings */
+  tableOfContents?: boolean;
+}
+
+export function generateArticleHTML(articleData: ArticleData, options: ArticleRenderOptions = {}): string {
+  const contentHtml = articleData.content.map(renderArticleBlock).join('\n');
+
+  return renderPage(ARTICLE_STYLES, `
+    <div class="header">
+      ${articleData.authorAvatar ? `<img src="${articleData.authorAvatar}" class="avatar" alt="Avatar" />` : ''}
+      <div class="author-info">
+        <span class="author-name">${escapeHtml(articleData.authorName || 'Unknown')}</span>
+        <span class="author-handle">${escapeHtml(articleData.authorHandle || '')}</span>
+      </div>
+    </div>
+    ${articleData.title ? `<h1 class="article-title">${escapeHtml(articleData.title)}</h1>` : ''}
+    ${options.tableOfContents ? renderArticleContents(articleData.content) : ''}
+    ${contentHtml}
+    ${articleData.date ? `<div class="article-date">${formatDate(articleData.date)}</div>` : ''}`, options.theme, articleData.title);
+}
+
+export interface TableOfContentsEntry {
+  title: string;
+  url: string;
+  page?: number;
+  error?: string;
+}
+
+/**
+ * Anchor a contents line links to for the document starting on `page`. It
+ * resolves to the page number within the contents PDF; merging retargets the
+ * link at the page itself.
+ */
+export function contentsPageAnchor(page: number): string {
+  return `toc-page-${page}`;
+}
+
+const TABLE_OF_CONTENTS_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--font);
+      padding: 40px;
+      background: var(--background);
+      color: var(--text);
+      line-height: 1.5;
+    }
+    .container { max-width: 680px; margin: 0 auto; }
+    .toc-heading { font-size: 28px; font-weight: 800; margin-bottom: 24px; padding-bottom: 16px; border-bottom: 1px solid var(--divider); }
+    .toc-entry { display: flex; align-items: baseline; gap: 8px; padding: 8px 0; border-bottom: 1px solid var(--divider); break-inside: avoid; }
+    .toc-index { font-size: 14px; color: var(--muted); min-width: 28px; }
+    .toc-body { flex: 1; min-width: 0; }
+    .toc-title { font-size: 15px; font-weight: 600; word-wrap: break-word; }
+    .toc-title a { color: inherit; text-decoration: none; }
+    .toc-url { font-size: 12px; color: var(--muted); word-break: break-all; }
+    .toc-page { font-size: 14px; font-weight: 600; min-width: 32px; text-align: right; }
+    .toc-failed .toc-title, .toc-failed .toc-url { color: var(--error); }
+  `;
+
+export function generateTableOfContentsHTML(entries: TableOfContentsEntry[], options: RenderOptions = {}): string {
+  const rowsHtml = entries
+    .map((entry, index) => `<li class="toc-entry${entry.error ? ' toc-failed' : ''}">
+      <span class="toc-index">${index + 1}.</span>
+      <div class="toc-body">
+        <div class="toc-title">${entry.page ? `<a href="#${contentsPageAnchor(entry.page)}">${escapeHtml(entry.title)}</a>` : escapeHtml(entry.title)}</div>
+        <div class="toc-url">${escapeHtml(entry.error ? `${entry.url} — ${entry.error}` : entry.url)}</div>
+      </div>
+      <span class="toc-page"${entry.page ? ` id="${contentsPageAnchor(entry.page)}"` : ''}>${entry.page ?? ''}</span>
+    </li>`)
+    .join('\n');
+
+  return renderPage(TABLE_OF_CONTENTS_STYLES, `
+    <h1 class="toc-heading">Contents</h1>
+    <ol style="list-style: none;">
+      ${rowsHtml}
+    </ol>`, options.theme);
+}
+
+export interface EvidenceEntry {
+  label: string;
+  value: string;
+}
+
+const EVIDENCE_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--font);
+      padding: 40px;
+      background: var(--background);
+      color: var(--text);
+      line-height: 1.5;
+    }
+    .container { max-width: 680px; margin: 0 auto; }
+    .evidence-heading { font-size: 28px; font-weight: 800; margin-bottom: 24px; padding-bottom: 16px; border-bottom: 1px solid var(--divider); }
+    .evidence-entry { padding: 8px 0; border-bottom: 1px solid var(--divider); break-inside: avoid; }
+    .evidence-label { font-size: 12px; font-weight: 700; color: var(--muted); text-transform: uppercase; letter-spacing: 0.04em; }
+    .evidence-value { font-size: 14px; font-family: Menlo, Consolas, "Liberation Mono", monospace; word-break: break-all; }
+    .evidence-screenshot { margin-top: 32px; }
+    .evidence-screenshot figcaption { font-size: 14px; font-weight: 700; margin-bottom: 12px; }
+    .evidence-screenshot img { width: 100%; display: block; border: 1px solid var(--border); }
+  `;
+
+/**
+ * The capture evidence appendix of an archival PDF: labelled provenance
+ * values, then the full-page screenshot when there is one.
+ */
+export function generateEvidenceHTML(entries: EvidenceEntry[], screenshot: string | null, options: RenderOptions = {}): string {
+  const entriesHtml = entries
+    .map(entry => `<div class="evidence-entry">
+      <div class="evidence-label">${escapeHtml(entry.label)}</div>
+      <div class="evidence-value">${escapeHtml(entry.value)}</div>
+    </div>`)
+    .join('\n');
+
+  return renderPage(EVIDENCE_STYLES, `
+    <h1 class="evidence-heading">Capture evidence</h1>
+    ${entriesHtml}
+    ${screenshot ? `<figure class="evidence-screenshot">
+      <figcaption>Screenshot of the live page</figcaption>
+      <img src="${screenshot}" alt="Screenshot of the live page" />
+    </figure>` : ''}`, options.theme, 'Capture evidence');
+}
+
+export interface DiffCapture {
+  capturedAt: string;
+  /** Why the content couldn't be captured, when X reported it private or deleted */
+  unavailable: string | null;
+}
+
+export interface CaptureDiff {
+  url: string;
+  before: DiffCapture;
+  after: DiffCapture;
+  lines: DiffLine[];
+}
+
+const DIFF_STYLES = `
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: var(--font);
+      padding: 40px;
+      background: var(--background);
+      color: var(--text);
+      line-height: 1.5;
+    }
+    .container { max-width: 680px; margin: 0 auto; }
+    .diff-heading { font-size: 28px; font-weight: 800; margin-bottom: 8px; }
+    .diff-url { font-size: 14px; color: var(--muted); word-break: break-all; margin-bottom: 24px; }
+    .diff-captures { display: flex; gap: 16px; margin-bottom: 24px; }
+    .diff-capture { flex: 1; padding: 12px; border: 1px solid var(--border); border-radius: 8px; }
+    .diff-capture-label { font-size: 12px; font-weight: 700; color: var(--muted); text-transform: uppercase; letter-spacing: 0.04em; }
+    .diff-capture-time { font-size: 14px; }
+    .diff-capture-status { font-size: 13px; color: var(--muted); }
+    .diff-capture-status.unavailable { color: var(--error); font-weight: 700; }
+    .diff-notice { padding: 12px 16px; margin-bottom: 24px; border: 1px solid var(--error); border-radius: 8px; color: var(--error); font-size: 14px; }
+    .diff-line { display: flex; gap: 8px; padding: 4px 8px; font-size: 14px; white-space: pre-wrap; word-break: break-word; break-inside: avoid; }
+    .diff-marker { flex: 0 0 12px; color: var(--muted); font-family: Menlo, Consolas, "Liberation Mono", monospace; }
+    .diff-line.added { background: rgba(0, 186, 124, 0.12); }
+    .diff-line.removed { background: rgba(244, 33, 46, 0.12); }
+    .diff-line.same { color: var(--muted); }
+    .diff-line ins { background: rgba(0, 186, 124, 0.3); text-decoration: none; }
+    .diff-line del { background: rgba(244, 33, 46, 0.3); }
+    .diff-unchanged { font-size: 14px; color: var(--muted); }
+  `;
+
+const DIFF_MARKERS: Record<DiffLine['change'], string> = { same: ' ', added: '+', removed: '−', changed: '~' };
+
+function renderDiffCapture(label: string, capture: DiffCapture): string {
+  return `<div class="diff-capture">
+      <div class="diff-capture-label">${label}</div>
+      <div class="diff-capture-time">${escapeHtml(formatCaptureTime(capture.capturedAt))}</div>
+      ${capture.unavailable
+        ? '<div class="diff-capture-status unavailable">Unavailable: may be private or deleted</div>'
+        : '<div class="diff-capture-status">Captured</div>'}
+    </div>`;
+}
+
+function renderDiffLine(line: DiffLine): string {
+  const parts = line.parts
+    .map(part => {
+      const text = escapeHtml(part.text);
+      if (line.change !== 'changed' || part.change === 'same') return text;
+      return part.change === 'added' ? `<ins>${text}</ins>` : `<del>${text}</del>`;
+    })
+    .join('');
+  return `<div class="diff-line ${line.change}"><span class="diff-marker">${DIFF_MARKERS[line.change]}</span><span>${parts}</span></div>`;
+}
+
+function diffNotice(diff: CaptureDiff): string {
+  if (diff.after.unavailable && !diff.before.unavailable) {
+    return `The later capture found this content unavailable; it may have been made private or deleted. X said: ${diff.after.unavailable}`;
+  }
+  if (diff.before.unavailable && !diff.after.unavailable) {
+    return 'The earlier capture found this content unavailable; it was available again in the later capture.';
+  }
+  if (diff.before.unavailable && diff.after.unavailable) {
+    return 'Neither capture found this content; it may be private or deleted.';
+  }
+  return '';
+}
+
+/**
+ * Summary page comparing two captures of the same URL: when each was taken,
+ * a notice when either found the content gone, then the line-by-line changes
+ * to the text and media with edited words marked.
+ */
+export function generateDiffHTML(diff: CaptureDiff, options: RenderOptions = {}): string {
+  const notice = diffNotice(diff);
+  const changed = diff.lines.some(line => line.change !== 'same');
+
+  return renderPage(DIFF_STYLES, `
+    <h1 class="diff-heading">Changes between captures</h1>
+    <div class="diff-url">${escapeHtml(diff.url)}</div>
+    <div class="diff-captures">
+      ${renderDiffCapture('Earlier capture', diff.before)}
+      ${renderDiffCapture('Later capture', diff.after)}
+    </div>
+    ${notice ? `<div class="diff-notice">${escapeHtml(notice)}</div>` : ''}
+    ${changed ? diff.lines.map(renderDiffLine).join('\n') : '<p class="diff-unchanged">No changes to the text or media.</p>'}`, options.theme, 'Changes between captures');
+}
@@ -0,0 +1,77 @@
+export interface InlineSegment {
+  text: string;
+  href?: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Splits an article's inline markup (escaped text with the `<a>`, `<strong>`,
+ * `<em>`, `<code>` and `<br>` tags kept by `scrapeArticle`) into styled runs.
+ * Line breaks become `\n` in the run text; any other tag is dropped.
+ */
+export function parseInlineMarkup(value: string): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  const tagPattern = /<(\/?)(a|strong|em|code|br)\b([^>]*)>/gi;
+  const state: Omit<InlineSegment, 'text'> = {};
+  let lastIndex = 0;
+
+  const pushText = (raw: string) => {
+    const text = decodeEntities(raw.replace(/<[^>]+>/g, ''));
+    if (!text) return;
+    const previous = segments[segments.length - 1];
+    if (previous && previous.href === state.href && previous.bold === state.bold &&
+        previous.italic === state.italic && previous.code === state.code) {
+      previous.text += text;
+    } else {
+      segments.push({ text, ...state });
+    }
+  };
+
+  for (const match of Array.from(value.matchAll(tagPattern))) {
+    pushText(value.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    const closing = match[1] === '/';
+    switch (match[2].toLowerCase()) {
+      case 'a': {
+        const href = match[3].match(/href="([^"]*)"/);
+        state.href = !closing && href ? decodeEntities(href[1]) : undefined;
+        break;
+      }
+      case 'strong':
+        state.bold = closing ? undefined : true;
+        break;
+      case 'em':
+        state.italic = closing ? undefined : true;
+        break;
+      case 'code':
+        state.code = closing ? undefined : true;
+        break;
+      case 'br':
+        pushText('\n');
+        break;
+    }
+  }
+  pushText(value.slice(lastIndex));
+
+  return segments;
+}
+
+/**
+ * Plain-text version of an article's inline markup.
+ */
+export function inlineText(value: string): string {
+  return parseInlineMarkup(value).map(segment => segment.text).join('');
+}
@@ -0,0 +1,296 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+
+export const THEME_PRESETS = ['default', 'dark', 'print', 'compact'] as const;
+
+export type ThemePreset = typeof THEME_PRESETS[number];
+
+export const PAGE_FORMATS = ['A4', 'Letter', 'A5'] as const;
+
+export type PageFormat = typeof PAGE_FORMATS[number];
+
+/** A named paper format, or a custom size as CSS lengths */
+export type PageSize = PageFormat | { width: string; height: string };
+
+export interface PageMargin {
+  top: string;
+  right: string;
+  bottom: string;
+  left: string;
+}
+
+export interface PageLayout {
+  size: PageSize;
+  margin: PageMargin;
+  /**
+   * Running header and footer text, repeated on every PDF page. Placeholders:
+   * `{url}`, `{author}`, `{title}`, `{capturedAt}`, `{page}` and `{pages}`.
+   * Null leaves the band off.
+   */
+  header: string | null;
+  footer: string | null;
+}
+
+export interface ThemeColors {
+  background: string;
+  text: string;
+  muted: string;
+  border: string;
+  divider: string;
+  link: string;
+  /** Fill behind code blocks */
+  surface: string;
+  error: string;
+}
+
+export interface BrandOptions {
+  name: string;
+  /** Logo as a data URI, so the page renders without fetching it */
+  logo: string | null;
+}
+
+export interface Theme {
+  preset: ThemePreset;
+  colors: ThemeColors;
+  fontFamily: string;
+  /** Stylesheet that loads a web font used by `fontFamily` */
+  fontUrl: string | null;
+  roundedImages: boolean;
+  compact: boolean;
+  page: PageLayout;
+  brand: BrandOptions | null;
+}
+
+/** Per-request choices on top of a preset, as read from the request body */
+export interface ThemeOptions {
+  preset?: ThemePreset;
+  fontFamily?: string;
+  fontUrl?: string;
+  pageSize?: PageSize;
+  margin?: string | PageMargin;
+  /** Empty string turns the band off */
+  header?: string;
+  footer?: string;
+  brand?: boolean;
+}
+
+// Preset used when a request doesn't name one
+const DEFAULT_THEME = process.env.DEFAULT_THEME || 'default';
+const BRAND_NAME = process.env.BRAND_NAME || 'Merkle Labs';
+const BRAND_LOGO_PATH = process.env.BRAND_LOGO_PATH || path.join(process.cwd(), 'public', 'merkle-labs-logo.png');
+
+const SYSTEM_FONTS = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif';
+
+const LIGHT_COLORS: ThemeColors = {
+  background: '#ffffff',
+  text: '#0f1419',
+  muted: '#536471',
+  border: '#cfd9de',
+  divider: '#eff3f4',
+  link: '#1d9bf0',
+  surface: '#f7f9f9',
+  error: '#f4212e',
+};
+
+const uniformMargin = (length: string): PageMargin => ({ top: length, right: length, bottom: length, left: length });
+
+// Provenance on every page; printouts without it aren't accepted as records
+const DEFAULT_HEADER = '{author} · {url}';
+const DEFAULT_FOOTER = 'Captured {capturedAt} · Page {page} of {pages}';
+
+const PRESETS: Record<ThemePreset, Omit<Theme, 'preset' | 'brand'>> = {
+  default: {
+    colors: LIGHT_COLORS,
+    fontFamily: SYSTEM_FONTS,
+    fontUrl: null,
+    roundedImages: true,
+    compact: false,
+    page: { size: 'A4', margin: uniformMargin('20px'), header: DEFAULT_HEADER, footer: DEFAULT_FOOTER },
+  },
+  // X's "Lights out" palette
+  dark: {
+    colors: {
+      background: '#000000',
+      text: '#e7e9ea',
+      muted: '#71767b',
+      border: '#536471',
+      divider: '#2f3336',
+      link: '#1d9bf0',
+      surface: '#16181c',
+      error: '#f4212e',
+    },
+    fontFamily: SYSTEM_FONTS,
+    fontUrl: null,
+    roundedImages: true,
+    compact: false,
+    page: { size: 'A4', margin: uniformMargin('20px'), header: DEFAULT_HEADER, footer: DEFAULT_FOOTER },
+  },
+  print: {
+    colors: { ...LIGHT_COLORS, text: '#000000', muted: '#444444', border: '#999999', divider: '#cccccc', link: '#1a4d8f' },
+    fontFamily: 'Georgia, "Times New Roman", Times, serif',
+    fontUrl: null,
+    roundedImages: false,
+    compact: false,
+    page: { size: 'A4', margin: uniformMargin('48px'), header: DEFAULT_HEADER, footer: DEFAULT_FOOTER },
+  },
+  compact: {
+    colors: LIGHT_COLORS,
+    fontFamily: SYSTEM_FONTS,
+    fontUrl: null,
+    roundedImages: true,
+    compact: true,
+    page: { size: 'A4', margin: uniformMargin('12px'), header: DEFAULT_HEADER, footer: DEFAULT_FOOTER },
+  },
+};
+
+const CSS_LENGTH = /^\d+(\.\d+)?(px|in|cm|mm)$/;
+const MAX_HEADER_LENGTH = 200;
+// Family names and generic families only; anything else could break out of the rule
+const FONT_FAMILY = /^[\w\s,"'-]+$/;
+
+export function isThemePreset(value: unknown): value is ThemePreset {
+  return typeof value === 'string' && (THEME_PRESETS as readonly string[]).includes(value);
+}
+
+function isPageSize(value: unknown): value is PageSize {
+  if (typeof value === 'string') {
+    return (PAGE_FORMATS as readonly string[]).includes(value);
+  }
+  const size = value as { width?: unknown; height?: unknown } | null;
+  return typeof size?.width === 'string' && CSS_LENGTH.test(size.width)
+    && typeof size?.height === 'string' && CSS_LENGTH.test(size.height);
+}
+
+function isMargin(value: unknown): value is string | PageMargin {
+  if (typeof value === 'string') {
+    return CSS_LENGTH.test(value);
+  }
+  const margin = value as Record<string, unknown> | null;
+  return (['top', 'right', 'bottom', 'left'] as const).every(side => typeof margin?.[side] === 'string' && CSS_LENGTH.test(margin[side] as string));
+}
+
+/**
+ * Checks the theme and layout fields of a request body, returning an error
+ * message for the first invalid one, or null when they're all usable.
+ */
+export function validateThemeOptions(body: Record<string, unknown>): string | null {
+  if (body.theme !== undefined && !isThemePreset(body.theme)) {
+    return `Invalid theme. Supported themes: ${THEME_PRESETS.join(', ')}.`;
+  }
+  if (body.pageSize !== undefined && !isPageSize(body.pageSize)) {
+    return `Invalid pageSize. Use ${PAGE_FORMATS.join(', ')} or { width, height } in px, in, cm or mm.`;
+  }
+  if (body.margin !== undefined && !isMargin(body.margin)) {
+    return 'Invalid margin. Use a length like "20px" or { top, right, bottom, left }.';
+  }
+  if (body.fontFamily !== undefined && (typeof body.fontFamily !== 'string' || !FONT_FAMILY.test(body.fontFamily))) {
+    return 'Invalid fontFamily. Use a CSS font family list such as "Inter, sans-serif".';
+  }
+  for (const band of ['header', 'footer'] as const) {
+    if (body[band] !== undefined && (typeof body[band] !== 'string' || (body[band] as string).length > MAX_HEADER_LENGTH)) {
+      return `Invalid ${band}. Use text of at most ${MAX_HEADER_LENGTH} characters, or "" to leave it off.`;
+    }
+  }
+  if (body.fontUrl !== undefined && (typeof body.fontUrl !== 'string' || !body.fontUrl.startsWith('https://'))) {
+    return 'Invalid fontUrl. Use an https:// stylesheet URL.';
+  }
+  return null;
+}
+
+/** Picks the theme fields out of a request body; invalid ones are ignored */
+export function readThemeOptions(body: Record<string, unknown>): ThemeOptions {
+  return {
+    preset: isThemePreset(body.theme) ? body.theme : undefined,
+    fontFamily: typeof body.fontFamily === 'string' && FONT_FAMILY.test(body.fontFamily) ? body.fontFamily : undefined,
+    fontUrl: typeof body.fontUrl === 'string' && body.fontUrl.startsWith('https://') ? body.fontUrl : undefined,
+    pageSize: isPageSize(body.pageSize) ? body.pageSize : undefined,
+    margin: isMargin(body.margin) ? body.margin : undefined,
+    header: typeof body.header === 'string' ? body.header.slice(0, MAX_HEADER_LENGTH) : undefined,
+    footer: typeof body.footer === 'string' ? body.footer.slice(0, MAX_HEADER_LENGTH) : undefined,
+    brand: Boolean(body.brand),
+  };
+}
+
+let brandLogo: string | null | undefined;
+
+function loadBrandLogo(): string | null {
+  if (brandLogo === undefined) {
+    try {
+      brandLogo = `data:image/png;base64,${readFileSync(BRAND_LOGO_PATH).toString('base64')}`;
+    } catch (error) {
+      console.warn(`Brand logo not found at ${BRAND_LOGO_PATH}:`, error);
+      brandLogo = null;
+    }
+  }
+  return brandLogo;
+}
+
+/** The preset named in `options` (or the server default) with the request's overrides applied */
+export function resolveTheme(options: ThemeOptions = {}): Theme {
+  const preset = options.preset || (isThemePreset(DEFAULT_THEME) ? DEFAULT_THEME : 'default');
+  const base = PRESETS[preset];
+
+  return {
+    ...base,
+    preset,
+    fontFamily: options.fontFamily || base.fontFamily,
+    fontUrl: options.fontUrl || base.fontUrl,
+    page: {
+      size: options.pageSize || base.page.size,
+      margin: typeof options.margin === 'string' ? uniformMargin(options.margin) : options.margin || base.page.margin,
+      header: options.header === undefined ? base.page.header : options.header || null,
+      footer: options.footer === undefined ? base.page.footer : options.footer || null,
+    },
+    brand: options.brand ? { name: BRAND_NAME, logo: loadBrandLogo() } : null,
+  };
+}
+
+const SQUARE_IMAGE_STYLES = `
+    .avatar, .tweet-image, .article-image, .video-keyframes img, .video-placeholder { border-radius: 0; }
+    .quoted-tweet, .article-tweet, .article-code { border-radius: 0; }
+  `;
+
+const COMPACT_STYLES = `
+    body { padding: 16px; line-height: 1.4; }
+    .container { max-width: none; }
+    .header { margin-bottom: 8px; }
+    .avatar { width: 36px; height: 36px; }
+    .tweet-text { font-size: 14px; margin-bottom: 8px; }
+    .tweet-image { margin-bottom: 8px; }
+    .tweet-date, .tweet-metrics { margin-top: 8px; padding-top: 8px; font-size: 12px; }
+    .thread-tweet { margin-bottom: 16px; }
+    .article-title { font-size: 24px; margin-bottom: 12px; }
+    .article-paragraph, .article-list, .article-quote { font-size: 14px; line-height: 1.5; margin-bottom: 8px; }
+    .article-heading { margin: 16px 0 8px 0; }
+    .article-figure { margin: 12px 0; }
+  `;
+
+const BRAND_STYLES = `
+    .brand-header { display: flex; align-items: center; gap: 8px; margin-bottom: 24px; padding-bottom: 12px; border-bottom: 1px solid var(--divider); }
+    .brand-header img { height: 24px; width: auto; }
+    .brand-header span { font-size: 13px; font-weight: 700; color: var(--muted); }
+    .brand-footer { margin-top: 32px; padding-top: 12px; border-top: 1px solid var(--divider); font-size: 12px; color: var(--muted); text-align: center; }
+  `;
+
+/**
+ * CSS layered over a template's base styles. The base styles read colors and
+ * the font from these custom properties; the rest are per-preset overrides.
+ */
+export function themeStyles(theme: Theme): string {
+  const { colors } = theme;
+  return `
+    :root {
+      --background: ${colors.background};
+      --text: ${colors.text};
+      --muted: ${colors.muted};
+      --border: ${colors.border};
+      --divider: ${colors.divider};
+      --link: ${colors.link};
+      --surface: ${colors.surface};
+      --error: ${colors.error};
+      --font: ${theme.fontFamily};
+    }
+    /* Paints the page margins too, which the body background doesn't reach */
+    @page { background: ${colors.background}; }
+  ${theme.roundedImages ? '' : SQUARE_IMAGE_STYLES}${theme.compact ? COMPACT_STYLES : ''}${theme.brand ? BRAND_STYLES : ''}`;
+}
@@ -0,0 +1,86 @@
+export interface TweetVideo {
+  kind: 'video' | 'gif';
+  posterUrl: string;
+  /** Player duration label such as "0:42"; GIFs have none */
+  duration: string | null;
+  /** Link back to the media on X, or the GIF's MP4 when there is no permalink */
+  url: string;
+  /** Data URIs of frames sampled from a GIF, when requested */
+  keyframes?: string[];
+}
+
+/**
+ * One run of a tweet's text. Links carry the expanded URL rather than the
+ * t.co redirect; emoji keep the image X renders them with.
+ */
+export type TextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'link' | 'mention' | 'hashtag' | 'cashtag'; text: string; url: string }
+  | { type: 'emoji'; text: string; imageUrl: string };
+
+/** Counts as shown on the tweet when it was captured; null when X didn't show one */
+export interface TweetMetrics {
+  replies: number | null;
+  reposts: number | null;
+  likes: number | null;
+  bookmarks: number | null;
+  views: number | null;
+}
+
+export interface TweetData {
+  authorName: string;
+  authorHandle: string;
+  authorAvatar: string | null;
+  text: string;
+  segments?: TextSegment[];
+  date: string;
+  images: string[];
+  videos?: TweetVideo[];
+  metrics?: TweetMetrics;
+  /** ISO timestamp of when the tweet was scraped, which is when `metrics` were frozen */
+  capturedAt?: string;
+  /** Selector strategy that extracted this tweet, as `name@version` */
+  extractor?: string;
+  quotedTweet?: TweetData | null;
+  parentTweet?: TweetData | null;
+  replyingTo?: string[];
+  /** Handle of the account whose timeline showed this tweet as a repost */
+  repostedBy?: string;
+}
+
+/**
+ * One block of an X article. `html` fields and list items hold sanitized inline
+ * markup: escaped text plus `<a href>`, `<strong>`, `<em>`, `<code>` and `<br>`.
+ */
+export type ArticleBlock =
+  | { type: 'heading'; level: number; html: string }
+  | { type: 'paragraph'; html: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'blockquote'; html: string }
+  | { type: 'code'; language: string | null; code: string }
+  | { type: 'image'; url: string; caption: string | null }
+  | { type: 'tweet'; url: string; authorName: string; authorHandle: string; text: string }
+  | { type: 'divider' };
+
+export interface ArticleData {
+  title: string;
+  authorName: string;
+  authorHandle: string;
+  authorAvatar: string | null;
+  content: ArticleBlock[];
+  date: string;
+  /** Selector strategy that extracted this article, as `name@version` */
+  extractor?: string;
+}
+
+export interface AuthCookies {
+  authToken?: string;
+  csrfToken?: string;
+}
+
+export interface EmbeddedMedia {
+  /** Data URIs keyed by the image URL as it appears in the scraped data */
+  dataUris: Record<string, string>;
+  /** Image URLs that could not be downloaded at any resolution */
+  failed: string[];
+}
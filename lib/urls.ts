@@ -0,0 +1,109 @@
+const X_HOSTS = ['twitter.com', 'www.twitter.com', 'x.com', 'www.x.com'];
+
+// Top-level paths on x.com that aren't profiles
+const RESERVED_PATHS = new Set([
+  'compose', 'explore', 'hashtag', 'home', 'i', 'login', 'logout', 'messages',
+  'notifications', 'privacy', 'search', 'settings', 'signup', 'tos',
+]);
+
+const HANDLE_PATTERN = /^\w{1,15}$/;
+
+export function isValidTwitterUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    if (!X_HOSTS.includes(parsed.hostname)) {
+      return false;
+    }
+    // Match tweet or article URLs
+    const isTweet = parsed.pathname.match(/^\/\w+\/status\/\d+/);
+    const isArticle = parsed.pathname.match(/^\/i\/article\/\d+/);
+    return isTweet !== null || isArticle !== null;
+  } catch {
+    return false;
+  }
+}
+
+export function extractTweetId(url: string): string | null {
+  const match = url.match(/status\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+export function extractArticleId(url: string): string | null {
+  const match = url.match(/article\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+export function isArticleUrl(url: string): boolean {
+  return url.includes('/i/article/');
+}
+
+/**
+ * The handle in `@jack`, `jack` or a profile URL such as `https://x.com/jack`,
+ * without the `@`; null when the value isn't one.
+ */
+export function extractProfileHandle(value: string): string | null {
+  let candidate = value.trim();
+
+  if (/^https?:\/\//.test(candidate)) {
+    try {
+      const parsed = new URL(candidate);
+      const segments = parsed.pathname.split('/').filter(Boolean);
+      if (!X_HOSTS.includes(parsed.hostname) || segments.length !== 1) {
+        return null;
+      }
+      candidate = segments[0];
+    } catch {
+      return null;
+    }
+  }
+
+  candidate = candidate.replace(/^@/, '');
+  return HANDLE_PATTERN.test(candidate) && !RESERVED_PATHS.has(candidate.toLowerCase()) ? candidate : null;
+}
+
+/** A page of tweets gathered by the signed-in account rather than written by one author */
+export type Collection =
+  | { type: 'bookmarks' }
+  | { type: 'likes'; handle: string }
+  | { type: 'list'; listId: string };
+
+/**
+ * The collection behind `https://x.com/i/bookmarks`, `https://x.com/<handle>/likes`
+ * or `https://x.com/i/lists/<id>`; null for any other URL.
+ */
+export function parseCollectionUrl(url: string): Collection | null {
+  try {
+    const parsed = new URL(url);
+    if (!X_HOSTS.includes(parsed.hostname)) {
+      return null;
+    }
+
+    const path = parsed.pathname.replace(/\/+$/, '');
+    if (path === '/i/bookmarks') {
+      return { type: 'bookmarks' };
+    }
+    const list = path.match(/^\/i\/lists\/(\d+)$/);
+    if (list) {
+      return { type: 'list', listId: list[1] };
+    }
+    const likes = path.match(/^\/(\w{1,15})\/likes$/);
+    if (likes && !RESERVED_PATHS.has(likes[1].toLowerCase())) {
+      return { type: 'likes', handle: likes[1] };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** The page on x.com that lists a collection's tweets */
+export function collectionUrl(collection: Collection): string {
+  switch (collection.type) {
+    case 'bookmarks':
+      return 'https://x.com/i/bookmarks';
+    case 'likes':
+      return `https://x.com/${collection.handle}/likes`;
+    case 'list':
+      return `https://x.com/i/lists/${collection.listId}`;
+  }
+}
@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { withBrowser } from './browser';
+import { ConversionError, prepareDocument, withSession } from './convert';
+import { writeFileAtomic } from './files';
+import { embedsMedia, renderOutput, type OutputFormat } from './formats';
+import { scrapeProfileTimeline } from './scraper';
+import type { ThemeOptions } from './themes';
+
+// Watch definitions, the run log and the archive of captured posts. Like jobs,
+// watches run inside the server process, so they need a long-lived host.
+const WATCH_DIR = process.env.WATCH_DIR || path.join(os.tmpdir(), 'tweettopdf-watches');
+const ARCHIVE_DIR = process.env.ARCHIVE_DIR || path.join(WATCH_DIR, 'archive');
+// How often the scheduler looks for watches that are due
+const WATCH_TICK_MS = Number(process.env.WATCH_TICK_MS) || 60 * 1000;
+
+export const MIN_WATCH_INTERVAL_MINUTES = 5;
+const DEFAULT_WATCH_INTERVAL_MINUTES = 60;
+// Tweets read off the timeline per run; an hourly run rarely sees more than a few new ones
+const TIMELINE_LIMIT = 20;
+// Archived IDs remembered per watch, far more than one timeline read returns
+const MAX_REMEMBERED_IDS = 1000;
+const MAX_LOG_ENTRIES = 500;
+
+export interface Watch {
+  /** Without the `@` */
+  handle: string;
+  intervalMinutes: number;
+  format: OutputFormat;
+  hideMetrics: boolean;
+  theme: ThemeOptions;
+  createdAt: string;
+  lastRunAt: string | null;
+  /** Tweets already archived, newest first */
+  capturedIds: string[];
+}
+
+export interface WatchInput {
+  handle: string;
+  intervalMinutes?: number;
+  format?: OutputFormat;
+  hideMetrics?: boolean;
+  theme?: ThemeOptions;
+}
+
+/** A watch as the API reports it */
+export interface WatchSummary extends Omit<Watch, 'capturedIds'> {
+  capturedCount: number;
+  nextRunAt: string;
+}
+
+export type WatchRunStatus = 'ok' | 'partial' | 'failed';
+
+export interface WatchRun {
+  id: string;
+  handle: string;
+  startedAt: string;
+  finishedAt: string;
+  status: WatchRunStatus;
+  /** Tweets on the timeline that hadn't been archived yet */
+  found: number;
+  /** Files written, relative to the archive directory */
+  archived: string[];
+  failures: { url: string; error: string }[];
+  /** Why the whole run failed, e.g. no usable account */
+  error: string | null;
+}
+
+// Scheduler state survives dev-mode hot reloads, like the job queue
+const globalForWatches = globalThis as unknown as {
+  watchTimer?: ReturnType<typeof setInterval>;
+  watchTicking?: boolean;
+  runningWatches?: Set<string>;
+  watchLock?: Promise<unknown>;
+};
+const runningWatches = globalForWatches.runningWatches ?? (globalForWatches.runningWatches = new Set());
+
+const watchesPath = () => path.join(WATCH_DIR, 'watches.json');
+const runLogPath = () => path.join(WATCH_DIR, 'runs.jsonl');
+
+async function readWatches(): Promise<Watch[]> {
+  try {
+    return JSON.parse(await fs.readFile(watchesPath(), 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read-modify-write of the watch list, one at a time, so a run finishing
+ * doesn't overwrite a watch added meanwhile.
+ */
+async function updateWatches<T>(change: (watches: Watch[]) => { watches: Watch[]; result: T }): Promise<T> {
+  const previous = globalForWatches.watchLock ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(async () => {
+    const { watches, result } = change(await readWatches());
+    await writeFileAtomic(watchesPath(), JSON.stringify(watches, null, 2));
+    return result;
+  });
+  globalForWatches.watchLock = next;
+  return next;
+}
+
+const sameHandle = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function summarize({ capturedIds, ...watch }: Watch): WatchSummary {
+  const lastRun = watch.lastRunAt ? Date.parse(watch.lastRunAt) : Date.now();
+  return {
+    ...watch,
+    capturedCount: capturedIds.length,
+    nextRunAt: new Date(lastRun + (watch.lastRunAt ? watch.intervalMinutes * 60 * 1000 : 0)).toISOString(),
+  };
+}
+
+export async function listWatches(): Promise<WatchSummary[]> {
+  return (await readWatches()).map(summarize);
+}
+
+/** Adds a watch, or changes the settings of an existing one for the same handle */
+export async function saveWatch(input: WatchInput): Promise<{ watch: WatchSummary; created: boolean }> {
+  return updateWatches(watches => {
+    const existing = watches.find(watch => sameHandle(watch.handle, input.handle));
+    const watch: Watch = {
+      handle: existing?.handle || input.handle,
+      intervalMinutes: Math.max(input.intervalMinutes ?? existing?.intervalMinutes ?? DEFAULT_WATCH_INTERVAL_MINUTES, MIN_WATCH_INTERVAL_MINUTES),
+      format: input.format || existing?.format || 'pdf',
+      hideMetrics: input.hideMetrics ?? existing?.hideMetrics ?? false,
+      theme: input.theme || existing?.theme || {},
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      lastRunAt: existing?.lastRunAt || null,
+      capturedIds: existing?.capturedIds || [],
+    };
+    return {
+      watches: existing ? watches.map(item => (item === existing ? watch : item)) : [...watches, watch],
+      result: { watch: summarize(watch), created: !existing },
+    };
+  });
+}
+
+/** Stops watching a handle; its archived files are kept */
+export async function removeWatch(handle: string): Promise<boolean> {
+  return updateWatches(watches => {
+    const remaining = watches.filter(watch => !sameHandle(watch.handle, handle));
+    return { watches: remaining, result: remaining.length < watches.length };
+  });
+}
+
+/** Logged runs, newest first, optionally for one handle */
+export async function listRuns(handle?: string, limit = 50): Promise<WatchRun[]> {
+  let lines: string[];
+  try {
+    lines = (await fs.readFile(runLogPath(), 'utf8')).split('\n').filter(Boolean);
+  } catch {
+    return [];
+  }
+
+  return lines
+    .map(line => JSON.parse(line) as WatchRun)
+    .filter(run => !handle || sameHandle(run.handle, handle))
+    .reverse()
+    .slice(0, limit);
+}
+
+async function logRun(run: WatchRun): Promise<void> {
+  const runs = (await listRuns(undefined, MAX_LOG_ENTRIES - 1)).reverse();
+  await writeFileAtomic(runLogPath(), [...runs, run].map(entry => JSON.stringify(entry)).join('\n') + '\n');
+}
+
+/**
+ * Reads the handle's timeline with the server's stored accounts and archives
+ * every tweet not archived before, oldest first, through the regular
+ * conversion path. A tweet that fails is logged and tried again next run.
+ */
+export async function runWatch(handle: string): Promise<WatchRun> {
+  const watch = (await readWatches()).find(item => sameHandle(item.handle, handle));
+  if (!watch) {
+    throw new ConversionError(`@${handle} is not being watched.`);
+  }
+  if (runningWatches.has(watch.handle)) {
+    throw new ConversionError(`A run for @${watch.handle} is already in progress.`);
+  }
+  runningWatches.add(watch.handle);
+
+  const run: WatchRun = {
+    id: randomUUID(),
+    handle: watch.handle,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    status: 'ok',
+    found: 0,
+    archived: [],
+    failures: [],
+    error: null,
+  };
+  const captured: string[] = [];
+
+  try {
+    await withBrowser(async browser => {
+      const timeline = await withSession(
+        {},
+        new ConversionError('Watches read timelines with the server\'s stored accounts, and none are configured.'),
+        auth => scrapeProfileTimeline(watch.handle, auth, browser, { limit: TIMELINE_LIMIT }),
+      );
+
+      const seen = new Set(watch.capturedIds);
+      const fresh = timeline.filter(tweet => !seen.has(tweet.id)).reverse();
+      run.found = fresh.length;
+
+      for (const tweet of fresh) {
+        const url = `https://x.com/${watch.handle}/status/${tweet.id}`;
+        try {
+          const doc = await prepareDocument(url, { hideMetrics: watch.hideMetrics, theme: watch.theme, inlineMedia: embedsMedia(watch.format) }, browser);
+          const output = await renderOutput(doc, watch.format, browser);
+          const file = path.join(watch.handle.toLowerCase(), output.fileName);
+          await writeFileAtomic(path.join(ARCHIVE_DIR, file), output.body);
+          run.archived.push(file);
+          captured.push(tweet.id);
+        } catch (error) {
+          if (!(error instanceof ConversionError)) {
+            console.error(`Watch capture failed for ${url}:`, error);
+          }
+          run.failures.push({ url, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+    });
+
+    if (run.failures.length > 0) {
+      run.status = run.archived.length > 0 ? 'partial' : 'failed';
+    }
+  } catch (error) {
+    if (!(error instanceof ConversionError)) {
+      console.error(`Watch run failed for @${watch.handle}:`, error);
+    }
+    run.status = 'failed';
+    run.error = error instanceof Error ? error.message : 'Unknown error';
+  } finally {
+    run.finishedAt = new Date().toISOString();
+    runningWatches.delete(watch.handle);
+  }
+
+  await updateWatches(watches => ({
+    watches: watches.map(item => (sameHandle(item.handle, watch.handle)
+      ? { ...item, lastRunAt: run.startedAt, capturedIds: [...captured.reverse(), ...item.capturedIds].slice(0, MAX_REMEMBERED_IDS) }
+      : item)),
+    result: undefined,
+  }));
+  await logRun(run);
+
+  return run;
+}
+
+async function runDueWatches(): Promise<void> {
+  if (globalForWatches.watchTicking) return;
+  globalForWatches.watchTicking = true;
+
+  try {
+    // One at a time, so watches don't crowd out interactive conversions in the browser pool
+    for (const watch of await listWatches()) {
+      if (Date.parse(watch.nextRunAt) <= Date.now() && !runningWatches.has(watch.handle)) {
+        await runWatch(watch.handle).catch(error => console.error(`Watch run failed for @${watch.handle}:`, error));
+      }
+    }
+  } finally {
+    globalForWatches.watchTicking = false;
+  }
+}
+
+/** Starts checking for due watches every tick; called once at server start */
+export function startWatchScheduler(): void {
+  if (globalForWatches.watchTimer) return;
+  globalForWatches.watchTimer = setInterval(() => {
+    runDueWatches().catch(error => console.error('Watch scheduler error:', error));
+  }, WATCH_TICK_MS);
+  // Don't hold the process open just for the scheduler
+  globalForWatches.watchTimer.unref?.();
+}
@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     serverComponentsExternalPackages: ['puppeteer'],
+    // Starts the watch scheduler, see instrumentation.ts
+    instrumentationHook: true,
   },
 };
 
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+// Encrypts an account list for the server's credential store (lib/credentials.ts).
+//
+//   CREDENTIALS_KEY=... node scripts/encrypt-credentials.mjs < accounts.json > credentials.enc.json
+//
+// accounts.json: { "accounts": [{ "name": "archive-1", "authToken": "...", "csrfToken": "..." }] }
+// Point CREDENTIALS_FILE at the output, or put its contents in CREDENTIALS_ENCRYPTED.
+import { createCipheriv, randomBytes, scryptSync } from 'crypto';
+
+// Must match KEY_SALT in lib/credentials.ts
+const KEY_SALT = 'tweettopdf-credentials-v1';
+
+const passphrase = process.env.CREDENTIALS_KEY;
+if (!passphrase) {
+  console.error('Set CREDENTIALS_KEY to the passphrase the server will use.');
+  process.exit(1);
+}
+
+const chunks = [];
+for await (const chunk of process.stdin) {
+  chunks.push(chunk);
+}
+const plaintext = Buffer.concat(chunks).toString('utf8');
+
+const { accounts } = JSON.parse(plaintext);
+if (!Array.isArray(accounts) || accounts.some(account => !account.name || !account.authToken)) {
+  console.error('Expected { "accounts": [{ "name", "authToken", "csrfToken"? }] } on stdin.');
+  process.exit(1);
+}
+
+const iv = randomBytes(12);
+const cipher = createCipheriv('aes-256-gcm', scryptSync(passphrase, KEY_SALT, 32), iv);
+const data = Buffer.concat([cipher.update(JSON.stringify({ accounts }), 'utf8'), cipher.final()]);
+
+process.stdout.write(JSON.stringify({
+  version: 1,
+  iv: iv.toString('base64'),
+  tag: cipher.getAuthTag().toString('base64'),
+  data: data.toString('base64'),
+}, null, 2) + '\n');
+console.error(`Encrypted ${accounts.length} account(s).`);
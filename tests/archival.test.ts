@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { generateArchivalPDF, type CaptureEvidence } from '../lib/archival';
+import type { PreparedDocument } from '../lib/convert';
+import { generatePDF } from '../lib/pdf';
+import { toExportDocument } from '../lib/schema';
+import { generateTweetHTML } from '../lib/templates';
+import { resolveTheme } from '../lib/themes';
+import type { TweetData } from '../lib/types';
+import { useBrowser } from './helpers';
+
+const tweet: TweetData = {
+  authorName: 'Ada',
+  authorHandle: '@ada',
+  authorAvatar: null,
+  text: 'Keep the receipts: https://example.com',
+  segments: [
+    { type: 'text', text: 'Keep the receipts: ' },
+    { type: 'link', text: 'https://example.com', url: 'https://example.com' },
+  ],
+  date: '2024-05-15T10:05:00.000Z',
+  images: [],
+  capturedAt: '2024-05-16T08:30:15.000Z',
+};
+
+const theme = resolveTheme();
+
+const doc: PreparedDocument = {
+  id: '1790000000000000001',
+  url: 'https://x.com/ada/status/1790000000000000001',
+  capturedAt: '2024-05-16T08:30:15.000Z',
+  fileId: 'tweet-1790000000000000001',
+  title: '@ada: Keep the receipts',
+  author: '@ada',
+  authorName: 'Ada',
+  subject: 'Tweet by @ada, captured from https://x.com/ada/status/1790000000000000001',
+  keywords: ['@ada'],
+  html: generateTweetHTML(tweet, { theme }),
+  source: { type: 'tweet', tweet },
+  media: { dataUris: {}, failed: [] },
+  extractor: null,
+  sourceMethod: 'syndication',
+  theme,
+  cached: false,
+};
+
+// 1x1 transparent PNG
+const SCREENSHOT = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=', 'base64');
+
+function evidence(): CaptureEvidence {
+  const json = JSON.stringify(toExportDocument(doc), null, 2);
+  return {
+    json,
+    sha256: createHash('sha256').update(json).digest('hex'),
+    screenshot: SCREENSHOT,
+    screenshotAt: '2024-05-16T08:30:20.000Z',
+    screenshotError: null,
+  };
+}
+
+/** Attached files by name, with their decoded contents */
+function attachments(pdf: PDFDocument): Record<string, Buffer> {
+  const names = pdf.catalog.lookup(PDFName.of('Names'), PDFDict).lookup(PDFName.of('EmbeddedFiles'), PDFDict).lookup(PDFName.of('Names'), PDFArray);
+  const files: Record<string, Buffer> = {};
+  for (let index = 0; index < names.size(); index += 2) {
+    const spec = names.lookup(index + 1, PDFDict);
+    const stream = spec.lookup(PDFName.of('EF'), PDFDict).lookup(PDFName.of('F')) as PDFRawStream;
+    files[names.lookup(index, PDFString, PDFHexString).decodeText()] = Buffer.from(decodePDFRawStream(stream).decode());
+  }
+  return files;
+}
+
+describe('generateArchivalPDF', () => {
+  const browser = useBrowser('archival');
+
+  it('declares PDF/A-3b with matching XMP metadata and an sRGB output intent', async () => {
+    const bytes = await generateArchivalPDF(doc, evidence(), browser());
+    const pdf = await PDFDocument.load(bytes, { updateMetadata: false });
+
+    const xmp = Buffer.from((pdf.catalog.lookup(PDFName.of('Metadata')) as PDFRawStream).getContents()).toString('utf8');
+    expect(xmp).toContain('<pdfaid:part>3</pdfaid:part>');
+    expect(xmp).toContain('<pdfaid:conformance>B</pdfaid:conformance>');
+    expect(xmp).toContain('<xmp:CreateDate>2024-05-16T08:30:15Z</xmp:CreateDate>');
+    expect(xmp).toContain('<rdf:li>Ada (@ada)</rdf:li>');
+    expect(pdf.getAuthor()).toBe('Ada (@ada)');
+    expect(pdf.getCreationDate()?.toISOString()).toBe('2024-05-16T08:30:15.000Z');
+
+    const [intent] = pdf.catalog.lookup(PDFName.of('OutputIntents'), PDFArray).asArray().map(ref => pdf.context.lookup(ref, PDFDict));
+    expect(intent.get(PDFName.of('S'))).toBe(PDFName.of('GTS_PDFA1'));
+    expect(intent.get(PDFName.of('DestOutputProfile'))).toBeInstanceOf(PDFRef);
+
+    expect(Buffer.from(bytes).toString('latin1')).toMatch(/\/ID \[ <[0-9A-F]{32}> <[0-9A-F]{32}> \]/i);
+  });
+
+  it('embeds every font and marks annotations printable', async () => {
+    const pdf = await PDFDocument.load(await generateArchivalPDF(doc, evidence(), browser()));
+
+    const descriptors = pdf.context.enumerateIndirectObjects()
+      .map(([, object]) => object)
+      .filter((object): object is PDFDict => object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('FontDescriptor'));
+    expect(descriptors.length).toBeGreaterThan(0);
+    for (const descriptor of descriptors) {
+      expect(['FontFile', 'FontFile2', 'FontFile3'].some(key => descriptor.has(PDFName.of(key)))).toBe(true);
+    }
+
+    const links = pdf.getPages().flatMap(page => page.node.Annots()?.asArray().map(ref => pdf.context.lookup(ref, PDFDict)) || []);
+    expect(links.length).toBeGreaterThan(0);
+    for (const link of links) {
+      expect(link.get(PDFName.of('F'))).toEqual(PDFNumber.of(4));
+    }
+  });
+
+  it('appends the evidence appendix and attaches the hashed JSON and screenshot', async () => {
+    const body = await PDFDocument.load(await generatePDF(doc.html, browser(), theme, doc));
+    const captured = evidence();
+    const pdf = await PDFDocument.load(await generateArchivalPDF(doc, captured, browser()));
+
+    expect(pdf.getPageCount()).toBeGreaterThan(body.getPageCount());
+
+    const files = attachments(pdf);
+    expect(Object.keys(files).sort()).toEqual(['capture.json', 'screenshot.png']);
+    expect(createHash('sha256').update(files['capture.json']).digest('hex')).toBe(captured.sha256);
+    expect(files['screenshot.png'].equals(SCREENSHOT)).toBe(true);
+    expect(pdf.catalog.lookup(PDFName.of('AF'), PDFArray).size()).toBe(2);
+  });
+});
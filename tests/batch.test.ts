@@ -0,0 +1,76 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRef, PDFString } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { mergeWithTableOfContents, type BatchDocument, type BatchResult } from '../lib/batch';
+import { generatePDF } from '../lib/pdf';
+import { generateArticleHTML } from '../lib/templates';
+import { useBrowser } from './helpers';
+
+function batchDocument(url: string, title: string, pdf: Buffer): BatchDocument {
+  return { url, fileId: `article-${url.split('/').pop()}`, title, pdf, failedImages: [], extractor: null, sourceMethod: 'browser' };
+}
+
+// Bookmark titles and target page numbers, nested as in the outline
+interface Bookmark {
+  title: string;
+  page: number;
+  children?: Bookmark[];
+}
+
+function readBookmarks(pdf: PDFDocument): Bookmark[] {
+  const pageNumbers = new Map(pdf.getPages().map((page, index) => [page.ref.toString(), index + 1]));
+  const readLevel = (ref: unknown): Bookmark[] => {
+    const level: Bookmark[] = [];
+    while (ref instanceof PDFRef) {
+      const item = pdf.context.lookup(ref, PDFDict);
+      const target = item.lookup(PDFName.of('Dest'), PDFArray).get(0);
+      const children = readLevel(item.get(PDFName.of('First')));
+      level.push({
+        title: item.lookup(PDFName.of('Title'), PDFString, PDFHexString).decodeText(),
+        page: pageNumbers.get(String(target)) || 0,
+        ...(children.length > 0 && { children }),
+      });
+      ref = item.get(PDFName.of('Next'));
+    }
+    return level;
+  };
+  return readLevel(pdf.catalog.lookup(PDFName.of('Outlines'), PDFDict).get(PDFName.of('First')));
+}
+
+describe('mergeWithTableOfContents', () => {
+  const browser = useBrowser('batch merge');
+
+  it('links the contents to each document and keeps their bookmarks', async () => {
+    const article = (title: string, heading: string) => generatePDF(generateArticleHTML({
+      title,
+      authorName: 'Ada',
+      authorHandle: '@ada',
+      authorAvatar: null,
+      date: '',
+      content: [{ type: 'heading', level: 2, html: heading }, { type: 'paragraph', html: 'Body' }],
+    }), browser());
+    const urls = ['https://x.com/i/article/1', 'https://x.com/i/article/404', 'https://x.com/i/article/2'];
+    const result: BatchResult = {
+      documents: [
+        batchDocument(urls[0], 'Notes', await article('Notes', 'Engines')),
+        batchDocument(urls[2], 'More notes', await article('More notes', 'Looms')),
+      ],
+      failures: [{ url: urls[1], error: 'This tweet is unavailable.' }],
+    };
+
+    const merged = await PDFDocument.load(await mergeWithTableOfContents(urls, result, browser()));
+
+    expect(merged.getPageCount()).toBe(3);
+    expect(readBookmarks(merged)).toEqual([
+      { title: 'Contents', page: 1 },
+      { title: 'Notes', page: 2, children: [{ title: 'Notes', page: 2, children: [{ title: 'Engines', page: 2 }] }] },
+      { title: 'More notes', page: 3, children: [{ title: 'More notes', page: 3, children: [{ title: 'Looms', page: 3 }] }] },
+    ]);
+
+    // The failed URL has no page, so only the two documents are linked
+    const pageNumbers = new Map(merged.getPages().map((page, index) => [page.ref.toString(), index + 1]));
+    const links = merged.getPage(0).node.Annots()!.asArray()
+      .map(ref => merged.context.lookup(ref, PDFDict).lookup(PDFName.of('Dest'), PDFArray).get(0))
+      .map(target => pageNumbers.get(String(target)));
+    expect(links).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,222 @@
+import { existsSync, mkdtempSync, readdirSync, utimesSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Image downloads are stubbed; what's under test is when they happen
+vi.mock('../lib/media', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/media')>()),
+  embedMedia: vi.fn(async () => ({ dataUris: {}, failed: [] })),
+}));
+
+// Only reached when a session is given and the full metrics are wanted
+vi.mock('../lib/scraper', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/scraper')>()),
+  scrapeTweet: vi.fn(),
+}));
+
+// The cache and history read their env at import, so each test gets fresh modules
+async function loadModules(env: Record<string, string>) {
+  vi.stubEnv('HISTORY_DIR', mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-history-')));
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  return {
+    cache: await import('../lib/cache'),
+    convert: await import('../lib/convert'),
+  };
+}
+
+function age(filePath: string, ms: number): void {
+  const time = new Date(Date.now() - ms);
+  utimesSync(filePath, time, time);
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-cache-'));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('disk cache', () => {
+  it('reads back what was written', async () => {
+    const { cache } = await loadModules({ CACHE_DIR: dir });
+
+    expect(await cache.readCache('tweet-1.json')).toBeNull();
+    await cache.writeCache('tweet-1.json', Buffer.from('{"id":"1"}'));
+    expect((await cache.readCache('tweet-1.json'))?.toString()).toBe('{"id":"1"}');
+  });
+
+  it('drops entries older than the TTL', async () => {
+    const { cache } = await loadModules({ CACHE_DIR: dir, CACHE_TTL_MS: '60000' });
+
+    await cache.writeCache('tweet-1.json', Buffer.from('old'));
+    age(path.join(dir, 'tweet-1.json'), 120000);
+
+    expect(await cache.readCache('tweet-1.json')).toBeNull();
+    expect(existsSync(path.join(dir, 'tweet-1.json'))).toBe(false);
+  });
+
+  it('evicts the oldest entries to stay under the size limit', async () => {
+    const { cache } = await loadModules({ CACHE_DIR: dir, CACHE_MAX_BYTES: '25' });
+
+    await cache.writeCache('tweet-1.pdf', Buffer.alloc(10));
+    age(path.join(dir, 'tweet-1.pdf'), 3000);
+    await cache.writeCache('tweet-2.pdf', Buffer.alloc(10));
+    age(path.join(dir, 'tweet-2.pdf'), 2000);
+    await cache.writeCache('tweet-3.pdf', Buffer.alloc(10));
+
+    expect(readdirSync(dir).sort()).toEqual(['tweet-2.pdf', 'tweet-3.pdf']);
+
+    // Larger than the whole cache: not stored at all
+    await cache.writeCache('tweet-4.pdf', Buffer.alloc(30));
+    expect(existsSync(path.join(dir, 'tweet-4.pdf'))).toBe(false);
+  });
+
+  it('is off when the size limit is 0', async () => {
+    const { cache } = await loadModules({ CACHE_DIR: dir, CACHE_MAX_BYTES: '0' });
+
+    await cache.writeCache('tweet-1.json', Buffer.from('{}'));
+    expect(await cache.readCache('tweet-1.json')).toBeNull();
+  });
+
+  it('produces an entry only on a miss', async () => {
+    const { cache } = await loadModules({ CACHE_DIR: dir });
+    const produce = vi.fn(async () => Buffer.from('%PDF'));
+
+    expect((await cache.cached('tweet-1.pdf', produce)).toString()).toBe('%PDF');
+    expect((await cache.cached('tweet-1.pdf', produce)).toString()).toBe('%PDF');
+    expect(produce).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects entry names that could leave the cache directory', async () => {
+    const { cache } = await loadModules({ CACHE_DIR: dir });
+
+    await expect(cache.readCache('../secrets.json')).rejects.toThrow('Invalid cache entry name');
+  });
+});
+
+describe('prepareDocument caching', () => {
+  // Stands in for the syndication endpoint; `photo` adds an image to the tweet
+  let server: Server;
+  let baseUrl: string;
+  let requests = 0;
+  let photo: string | null = null;
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      requests++;
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        id_str: '1790000000000000001',
+        text: 'Cache me if you can',
+        created_at: '2024-05-13T16:20:00.000Z',
+        user: { name: 'jack', screen_name: 'jack' },
+        ...(photo && { mediaDetails: [{ type: 'photo', media_url_https: photo }] }),
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const url = 'https://x.com/jack/status/1790000000000000001';
+
+  it('serves repeat conversions from the cache and re-renders them with the requested theme', async () => {
+    const { convert } = await loadModules({ CACHE_DIR: dir, SYNDICATION_BASE_URL: baseUrl });
+    const before = requests;
+
+    const first = await convert.prepareDocument(url, {});
+    const second = await convert.prepareDocument(url, { theme: { preset: 'dark' } });
+
+    expect(requests - before).toBe(1);
+    expect(first.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.capturedAt).toBe(first.capturedAt);
+    expect(second.theme.preset).toBe('dark');
+    expect(second.html).toContain('--background: #000000');
+    expect(second.html).toContain('Cache me if you can');
+  });
+
+  it('captures again when asked to refresh', async () => {
+    const { convert } = await loadModules({ CACHE_DIR: dir, SYNDICATION_BASE_URL: baseUrl });
+    const before = requests;
+
+    await convert.prepareDocument(url, {});
+    const refreshed = await convert.prepareDocument(url, { refresh: true });
+    const after = await convert.prepareDocument(url, {});
+
+    expect(requests - before).toBe(2);
+    expect(refreshed.cached).toBe(false);
+    expect(after.cached).toBe(true);
+    expect(after.capturedAt).toBe(refreshed.capturedAt);
+  });
+
+  it("keeps captures made with a caller's cookies apart from everyone else's", async () => {
+    const { convert } = await loadModules({ CACHE_DIR: dir, SYNDICATION_BASE_URL: baseUrl });
+    const before = requests;
+
+    // With the metrics hidden, the caller's tweet comes from the endpoint too
+    await convert.prepareDocument(url, { authToken: 'token-a', hideMetrics: true });
+    const anonymous = await convert.prepareDocument(url, { hideMetrics: true });
+    const sameCaller = await convert.prepareDocument(url, { authToken: 'token-a', hideMetrics: true });
+
+    expect(requests - before).toBe(2);
+    expect(anonymous.cached).toBe(false);
+    expect(sameCaller.cached).toBe(true);
+  });
+  it("reads the tweet through the caller's session when the metrics the endpoint lacks are shown", async () => {
+    const { convert } = await loadModules({ CACHE_DIR: dir, SYNDICATION_BASE_URL: baseUrl });
+    const { scrapeTweet } = await import('../lib/scraper');
+    vi.mocked(scrapeTweet).mockResolvedValue({
+      authorName: 'jack',
+      authorHandle: '@jack',
+      authorAvatar: null,
+      text: 'Cache me if you can',
+      date: '2024-05-13T16:20:00.000Z',
+      images: [],
+      metrics: { replies: 1, reposts: 2, likes: 3, bookmarks: 4, views: 500 },
+    });
+    const before = requests;
+
+    const full = await convert.prepareDocument(url, { authToken: 'token-b' });
+    expect(requests - before).toBe(0);
+    expect(full.sourceMethod).toBe('browser');
+    expect(full.html).toContain('500');
+
+    const hidden = await convert.prepareDocument(url, { authToken: 'token-b', hideMetrics: true });
+    expect(requests - before).toBe(1);
+    expect(hidden).toMatchObject({ sourceMethod: 'syndication', cached: false });
+  });
+
+  it('keeps remote image URLs when media is not inlined, and downloads them for a later request that needs them', async () => {
+    photo = 'https://pbs.twimg.com/media/GNcache001.jpg';
+    const { convert } = await loadModules({ CACHE_DIR: dir, SYNDICATION_BASE_URL: baseUrl });
+    const { embedMedia } = await import('../lib/media');
+    vi.mocked(embedMedia).mockResolvedValue({ dataUris: { [photo]: 'data:image/jpeg;base64,AAAA' }, failed: [] });
+
+    const linked = await convert.prepareDocument(url, { inlineMedia: false });
+    expect(embedMedia).not.toHaveBeenCalled();
+    expect(linked.html).toContain(`src="${photo}"`);
+
+    const inlined = await convert.prepareDocument(url, {});
+    expect(inlined.cached).toBe(true);
+    expect(inlined.html).toContain('src="data:image/jpeg;base64,AAAA"');
+
+    // The downloads were written back to the cache
+    await convert.prepareDocument(url, {});
+    expect(embedMedia).toHaveBeenCalledTimes(1);
+    photo = null;
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { collectionFileId, collectTweetUrls } from '../lib/collections';
+import { scrapeCollection } from '../lib/scraper';
+import { entry } from './helpers';
+
+vi.mock('../lib/scraper', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/scraper')>()),
+  scrapeCollection: vi.fn(),
+}));
+
+beforeEach(() => {
+  vi.mocked(scrapeCollection).mockReset();
+});
+
+describe('collectTweetUrls', () => {
+  it("returns the page's tweets as status URLs, in the page's order", async () => {
+    vi.mocked(scrapeCollection).mockResolvedValue([entry('1790000000000000031', { authorHandle: '@ada' }), entry('20', { authorHandle: '@jack' }), entry('21', { authorHandle: '' })]);
+
+    const urls = await collectTweetUrls({ type: 'bookmarks' }, { authToken: 'mine' }, 5);
+
+    expect(scrapeCollection).toHaveBeenCalledWith('https://x.com/i/bookmarks', { authToken: 'mine', csrfToken: undefined }, undefined, { limit: 5 });
+    expect(urls).toEqual([
+      'https://x.com/ada/status/1790000000000000031',
+      'https://x.com/jack/status/20',
+      'https://x.com/i/status/21',
+    ]);
+  });
+
+  it("never reads bookmarks or likes with the server's accounts", async () => {
+    await expect(collectTweetUrls({ type: 'likes', handle: 'jack' }, {}, 5)).rejects.toThrow('Please provide your auth_token cookie.');
+    expect(scrapeCollection).not.toHaveBeenCalled();
+  });
+
+  it('reports an empty collection as a request problem', async () => {
+    vi.mocked(scrapeCollection).mockResolvedValue([]);
+
+    await expect(collectTweetUrls({ type: 'list', listId: '123' }, { authToken: 'mine' }, 5)).rejects.toThrow('No tweets were found in List 123.');
+  });
+});
+
+describe('collectionFileId', () => {
+  it.each([
+    [{ type: 'bookmarks' } as const, 'bookmarks'],
+    [{ type: 'likes', handle: 'Jack' } as const, 'likes-jack'],
+    [{ type: 'list', listId: '123' } as const, 'list-123'],
+  ])('names %j %j', (collection, fileId) => {
+    expect(collectionFileId(collection)).toBe(fileId);
+  });
+});
@@ -0,0 +1,119 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const SCRIPT = path.join(__dirname, '..', 'scripts', 'encrypt-credentials.mjs');
+const KEY = 'correct horse battery staple';
+
+const accounts = [
+  { name: 'archive-1', authToken: 'token-1', csrfToken: 'ct0-1' },
+  { name: 'archive-2', authToken: 'token-2' },
+  { name: 'archive-3', authToken: 'token-3' },
+];
+
+function encrypt(plaintext: unknown, key = KEY): string {
+  return execFileSync('node', [SCRIPT], {
+    input: JSON.stringify(plaintext),
+    env: { ...process.env, CREDENTIALS_KEY: key },
+    stdio: ['pipe', 'pipe', 'ignore'],
+  }).toString();
+}
+
+// The store reads its env at import and lives on globalThis, so each test
+// gets a fresh module with its own configuration
+async function loadStore(env: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  delete (globalThis as { credentialStore?: unknown }).credentialStore;
+  vi.resetModules();
+  const { credentialStore } = await import('../lib/credentials');
+  return credentialStore;
+}
+
+describe('credentialStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-credentials-'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('is empty when nothing is configured', async () => {
+    const store = await loadStore({ CREDENTIALS_FILE: '', CREDENTIALS_ENCRYPTED: '' });
+
+    expect(await store.hasAccounts()).toBe(false);
+    expect(await store.next()).toBeNull();
+    expect(await store.status()).toEqual({ configured: false, error: null, accounts: [] });
+  });
+
+  it('decrypts a credentials file and rotates through its accounts', async () => {
+    const file = path.join(dir, 'credentials.enc.json');
+    writeFileSync(file, encrypt({ accounts }));
+    const store = await loadStore({ CREDENTIALS_FILE: file, CREDENTIALS_KEY: KEY });
+
+    const names = [];
+    for (let i = 0; i < 4; i++) {
+      names.push((await store.next())!.name);
+    }
+    expect(names).toEqual(['archive-1', 'archive-2', 'archive-3', 'archive-1']);
+    expect((await store.next())!.auth).toEqual({ authToken: 'token-2', csrfToken: undefined });
+  });
+
+  it('accepts the encrypted payload inline', async () => {
+    const store = await loadStore({ CREDENTIALS_FILE: '', CREDENTIALS_ENCRYPTED: encrypt({ accounts }), CREDENTIALS_KEY: KEY });
+
+    expect(await store.hasAccounts()).toBe(true);
+  });
+
+  it('skips expired, locked and cooling-down accounts', async () => {
+    const store = await loadStore({ CREDENTIALS_FILE: '', CREDENTIALS_ENCRYPTED: encrypt({ accounts }), CREDENTIALS_KEY: KEY });
+
+    await store.hasAccounts();
+    store.markProblem('archive-1', 'expired', 'logged out');
+    store.markProblem('archive-2', 'rate-limited', 'slow down');
+    expect((await store.next())!.name).toBe('archive-3');
+    expect((await store.next())!.name).toBe('archive-3');
+    expect(await store.next(new Set(['archive-3']))).toBeNull();
+
+    store.markProblem('archive-3', 'locked', 'locked');
+    expect(await store.next()).toBeNull();
+
+    store.markHealthy('archive-1');
+    expect((await store.next())!.name).toBe('archive-1');
+  });
+
+  it('reports health without exposing tokens', async () => {
+    const store = await loadStore({ CREDENTIALS_FILE: '', CREDENTIALS_ENCRYPTED: encrypt({ accounts }), CREDENTIALS_KEY: KEY });
+    await store.hasAccounts();
+    store.markHealthy('archive-1');
+    store.markProblem('archive-2', 'rate-limited', 'slow down');
+
+    const status = await store.status();
+    expect(status.configured).toBe(true);
+    expect(status.accounts.map(account => [account.name, account.status])).toEqual([
+      ['archive-1', 'healthy'],
+      ['archive-2', 'rate-limited'],
+      ['archive-3', 'unknown'],
+    ]);
+    expect(status.accounts[1].availableAt).not.toBeNull();
+    expect(JSON.stringify(status)).not.toContain('token-');
+  });
+
+  it('reports a wrong key instead of throwing', async () => {
+    const store = await loadStore({ CREDENTIALS_FILE: '', CREDENTIALS_ENCRYPTED: encrypt({ accounts }, 'other key'), CREDENTIALS_KEY: KEY });
+
+    expect(await store.hasAccounts()).toBe(false);
+    const status = await store.status();
+    expect(status.configured).toBe(true);
+    expect(status.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,115 @@
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { compareSnapshots, diffLines, diffWords, generateDiffPDF, snapshotLines } from '../lib/diff';
+import type { Snapshot } from '../lib/history';
+import { generateDiffHTML } from '../lib/templates';
+import { resolveTheme } from '../lib/themes';
+import type { TweetData } from '../lib/types';
+import { tweet, useBrowser } from './helpers';
+
+const url = 'https://x.com/jack/status/1790000000000000001';
+
+function snapshot(capturedAt: string, data: TweetData | null): Snapshot {
+  const id = capturedAt.replace(/[-:.]/g, '');
+  return {
+    id,
+    documentId: 'tweet-1790000000000000001',
+    url,
+    capturedAt,
+    status: data ? 'available' : 'unavailable',
+    error: data ? null : 'This tweet is not publicly available. It may be private or deleted.',
+    sourceMethod: data ? 'syndication' : null,
+    extractor: null,
+    document: data && {
+      id: '1790000000000000001',
+      url,
+      capturedAt,
+      fileId: 'tweet-1790000000000000001',
+      title: `@jack: ${data.text}`,
+      author: '@jack',
+      authorName: 'jack',
+      subject: 'Tweet by @jack',
+      keywords: ['@jack'],
+      source: { type: 'tweet', tweet: data },
+      media: { dataUris: {}, failed: [] },
+      extractor: null,
+      sourceMethod: 'syndication',
+    },
+  };
+}
+
+describe('diffWords', () => {
+  it('marks the edited words and keeps whitespace so the parts rejoin', () => {
+    const parts = diffWords('shipping on Friday', 'shipping on Monday');
+
+    expect(parts).toEqual([
+      { change: 'same', text: 'shipping on ' },
+      { change: 'removed', text: 'Friday' },
+      { change: 'added', text: 'Monday' },
+    ]);
+    expect(parts.filter(part => part.change !== 'added').map(part => part.text).join('')).toBe('shipping on Friday');
+  });
+});
+
+describe('diffLines', () => {
+  it('pairs a replaced line into one changed line and keeps unmatched lines whole', () => {
+    const lines = diffLines(['intro', 'we ship Friday', 'outro'], ['intro', 'we ship Monday', 'outro', 'PS: thanks']);
+
+    expect(lines.map(line => line.change)).toEqual(['same', 'changed', 'same', 'added']);
+    expect(lines[1].parts).toContainEqual({ change: 'added', text: 'Monday' });
+    expect(lines[3].parts).toEqual([{ change: 'added', text: 'PS: thanks' }]);
+  });
+});
+
+describe('snapshotLines', () => {
+  it('ignores image size parameters that differ between scrapers', () => {
+    const syndicated = snapshotLines({ type: 'tweet', tweet: tweet({ text: 'hi', images: ['https://pbs.twimg.com/media/a.jpg'] }) });
+    const scraped = snapshotLines({ type: 'tweet', tweet: tweet({ text: 'hi', images: ['https://pbs.twimg.com/media/a.jpg?format=jpg&name=large'] }) });
+
+    expect(scraped).toEqual(syndicated);
+    expect(syndicated).toEqual(['jack @jack', 'hi', 'Image: https://pbs.twimg.com/media/a.jpg']);
+  });
+});
+
+describe('compareSnapshots', () => {
+  it('shows everything as removed when the later capture found the tweet gone', () => {
+    const diff = compareSnapshots(snapshot('2024-05-13T16:30:00.000Z', tweet({ text: 'gm' })), snapshot('2024-05-20T08:00:00.000Z', null));
+
+    expect(diff.after.unavailable).toMatch(/may be private or deleted/);
+    expect(diff.lines.every(line => line.change === 'removed')).toBe(true);
+
+    const html = generateDiffHTML(diff);
+    expect(html).toContain('The later capture found this content unavailable');
+    expect(html).toContain('2024-05-20 08:00:00 UTC');
+  });
+
+  it('says so when nothing changed', () => {
+    const diff = compareSnapshots(snapshot('2024-05-13T16:30:00.000Z', tweet({ text: 'gm' })), snapshot('2024-05-14T16:30:00.000Z', tweet({ text: 'gm' })));
+
+    expect(generateDiffHTML(diff)).toContain('No changes to the text or media.');
+  });
+});
+
+describe('generateDiffPDF', () => {
+  const browser = useBrowser('diff PDF');
+
+  it('follows the change summary with each available capture as rendered', async () => {
+    const theme = resolveTheme();
+    const edited = await PDFDocument.load(await generateDiffPDF(
+      snapshot('2024-05-13T16:30:00.000Z', tweet({ text: 'we ship Friday' })),
+      snapshot('2024-05-14T16:30:00.000Z', tweet({ text: 'we ship Monday' })),
+      theme,
+      browser(),
+    ));
+    const deleted = await PDFDocument.load(await generateDiffPDF(
+      snapshot('2024-05-13T16:30:00.000Z', tweet({ text: 'we ship Friday' })),
+      snapshot('2024-05-20T08:00:00.000Z', null),
+      theme,
+      browser(),
+    ));
+
+    expect(edited.getPageCount()).toBe(3);
+    expect(deleted.getPageCount()).toBe(2);
+    expect(edited.getTitle()).toBe('Changes to @jack: we ship Monday');
+  });
+});
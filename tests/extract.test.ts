@@ -0,0 +1,213 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Page } from 'puppeteer';
+import { describe, expect, it } from 'vitest';
+import { createTweetParsers, extractArticlePage, extractTimelineTweets, extractTweetPage } from '../lib/extract';
+import { ARTICLE_STRATEGIES, TWEET_STRATEGIES, extractWithFallback, strategyId } from '../lib/extractors';
+import { useBrowser } from './helpers';
+
+// Fixtures are saved X pages trimmed down to the markup the extractors read.
+// Refresh one by saving the page from a logged-in browser and stripping
+// scripts; keep hrefs absolute, since the author lookup matches on them.
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+const [tweetStrategy] = TWEET_STRATEGIES;
+const [articleStrategy] = ARTICLE_STRATEGIES;
+
+const browser = useBrowser('extraction');
+
+async function loadFixture(name: string): Promise<Page> {
+  const page = await browser().newPage();
+  // Stay offline: fixtures reference real CDN URLs that must not be fetched
+  await page.setRequestInterception(true);
+  page.on('request', request => {
+    if (request.url().startsWith('data:')) {
+      request.continue();
+    } else {
+      request.abort();
+    }
+  });
+  await page.setViewport({ width: 1200, height: 800 });
+  await page.setContent(readFileSync(path.join(FIXTURES_DIR, name), 'utf8'), { waitUntil: 'domcontentloaded' });
+  return page;
+}
+
+// The in-page helpers the tweet extractors share, as the scrapers build them
+function parsers(page: Page) {
+  return page.evaluateHandle(createTweetParsers);
+}
+
+describe('extractTweetPage', () => {
+  it('extracts a plain tweet with its inline segments and metrics', async () => {
+    const page = await loadFixture('tweet-plain.html');
+    const tweet = await page.evaluate(extractTweetPage, '1790000000000000001', tweetStrategy.selectors, await parsers(page));
+    await page.close();
+
+    expect(tweet).not.toBeNull();
+    expect(tweet!.authorName).toBe('jack');
+    expect(tweet!.authorHandle).toBe('@jack');
+    expect(tweet!.authorAvatar).toBe('https://pbs.twimg.com/profile_images/1115644092329758721/AFjOr-K8_400x400.jpg');
+    expect(tweet!.date).toBe('2024-05-13T16:20:00.000Z');
+    expect(tweet!.segments).toEqual([
+      { type: 'text', text: 'Shipping the new build today with ' },
+      { type: 'mention', text: '@dorsey', url: 'https://x.com/dorsey' },
+      { type: 'text', text: ' ' },
+      { type: 'emoji', text: '🚀', imageUrl: 'https://abs-0.twimg.com/emoji/v2/svg/1f680.svg' },
+      { type: 'text', text: '\nNotes: ' },
+      { type: 'link', text: 'https://example.com/release-notes/2024', url: 'https://example.com/release-notes/2024' },
+      { type: 'text', text: ' ' },
+      { type: 'hashtag', text: '#buildinpublic', url: 'https://x.com/hashtag/buildinpublic?src=hashtag_click' },
+      { type: 'text', text: ' ' },
+      { type: 'cashtag', text: '$TSLA', url: 'https://x.com/search?q=%24TSLA&src=cashtag_click' },
+    ]);
+    expect(tweet!.text).toBe('Shipping the new build today with @dorsey 🚀\nNotes: https://example.com/release-notes/2024 #buildinpublic $TSLA');
+    expect(tweet!.images).toEqual([]);
+    expect(tweet!.videos).toEqual([]);
+    expect(tweet!.metrics).toEqual({ replies: 12, reposts: 34, likes: 1234, bookmarks: 56, views: 98765 });
+    expect(tweet!.quotedTweet).toBeNull();
+    expect(tweet!.parentTweet).toBeNull();
+    expect(tweet!.replyingTo).toEqual([]);
+  });
+
+  it('extracts photos, videos and GIFs from a media tweet', async () => {
+    const page = await loadFixture('tweet-media.html');
+    const tweet = await page.evaluate(extractTweetPage, '1790000000000000002', tweetStrategy.selectors, await parsers(page));
+    const captureIndexes = await page.$$eval('[data-testid="videoPlayer"]', players =>
+      players.map(player => player.getAttribute('data-capture-index')));
+    await page.close();
+
+    expect(tweet!.text).toBe('Fresh views from orbit.');
+    expect(tweet!.images).toEqual([
+      'https://pbs.twimg.com/media/GNabc123XYZ?format=jpg&name=small',
+      'https://pbs.twimg.com/media/GNdef456UVW?format=png&name=small',
+    ]);
+    expect(tweet!.videos).toEqual([
+      {
+        kind: 'video',
+        posterUrl: 'https://pbs.twimg.com/ext_tw_video_thumb/1790000000000000099/pu/img/poster.jpg',
+        duration: '0:42',
+        url: 'https://x.com/NASA/status/1790000000000000002/video/1',
+      },
+      {
+        kind: 'gif',
+        posterUrl: 'https://pbs.twimg.com/tweet_video_thumb/GNghi789.jpg',
+        duration: null,
+        url: 'https://x.com/NASA/status/1790000000000000002/video/2',
+      },
+    ]);
+    expect(captureIndexes).toEqual(['0', '1']);
+    expect(tweet!.metrics).toEqual({ replies: 5, reposts: 20, likes: 300, bookmarks: null, views: 2500000 });
+  });
+
+  it('separates a quoted tweet and the parent of a reply', async () => {
+    const page = await loadFixture('tweet-quote.html');
+    const tweet = await page.evaluate(extractTweetPage, '1790000000000000011', tweetStrategy.selectors, await parsers(page));
+    await page.close();
+
+    expect(tweet!.authorHandle).toBe('@ada');
+    expect(tweet!.text).toBe('A moth, obviously. Quoting the original:');
+    expect(tweet!.date).toBe('2024-05-15T10:05:00.000Z');
+    expect(tweet!.images).toEqual([]);
+    expect(tweet!.replyingTo).toEqual(['@grace']);
+
+    expect(tweet!.quotedTweet).toMatchObject({
+      authorName: 'Hopper Archive',
+      authorHandle: '@hopperarchive',
+      authorAvatar: 'https://pbs.twimg.com/profile_images/333/hopper_400x400.jpg',
+      text: 'First actual case of bug being found.',
+      date: '1947-09-09T15:45:00.000Z',
+      images: ['https://pbs.twimg.com/media/GNmoth001?format=jpg&name=small'],
+    });
+
+    expect(tweet!.parentTweet).toMatchObject({
+      authorName: 'Grace',
+      authorHandle: '@grace',
+      text: 'What should we call the bug we found?',
+      quotedTweet: null,
+    });
+  });
+
+  it('falls back to the next strategy when a selector stops matching', async () => {
+    const page = await loadFixture('tweet-plain.html');
+    await page.evaluate(() => document.querySelectorAll('[data-testid="tweetText"]')
+      .forEach(el => el.removeAttribute('data-testid')));
+    const tweetParsers = await parsers(page);
+    const { result: tweet, strategy } = await extractWithFallback(
+      TWEET_STRATEGIES,
+      selectors => page.evaluate(extractTweetPage, '1790000000000000001', selectors, tweetParsers),
+      result => !!result?.text,
+    );
+    await page.close();
+
+    expect(strategy && strategyId(strategy)).toBe(strategyId(TWEET_STRATEGIES[1]));
+    expect(tweet!.authorHandle).toBe('@jack');
+    expect(tweet!.text).toContain('Shipping the new build today');
+  });
+});
+
+describe('extractTimelineTweets', () => {
+  it('marks pinned tweets, reposts and replies on a profile timeline, with their rich text and videos', async () => {
+    const page = await loadFixture('profile-timeline.html');
+    const entries = await page.evaluate(extractTimelineTweets, tweetStrategy.selectors, await parsers(page));
+    await page.close();
+
+    expect(entries.map(entry => entry.id)).toEqual(['20', '1790000000000000031', '1790000000000000030', '1790000000000000001']);
+    expect(entries[0]).toMatchObject({ authorHandle: '@jack', pinned: true, text: 'just setting up my twttr' });
+    // The "jack reposted" link must not be taken for the author
+    expect(entries[1]).toMatchObject({ authorName: 'Ada', authorHandle: '@ada', repostedBy: '@jack' });
+    expect(entries[1].pinned).toBeUndefined();
+    expect(entries[2]).toMatchObject({ authorHandle: '@jack', replyingTo: ['@grace'], text: 'Agreed, ship it.' });
+    expect(entries[3]).toMatchObject({ authorName: 'jack', authorHandle: '@jack', replyingTo: [] });
+    expect(entries[3].repostedBy).toBeUndefined();
+    expect(entries[3].segments).toEqual([
+      { type: 'text', text: 'Shipping the new build today with ' },
+      { type: 'mention', text: '@ada', url: 'https://x.com/ada' },
+      { type: 'text', text: ' ' },
+      { type: 'hashtag', text: '#release', url: 'https://x.com/hashtag/release?src=hashtag_click' },
+    ]);
+    expect(entries[3].videos).toEqual([{
+      kind: 'video',
+      posterUrl: 'https://pbs.twimg.com/ext_tw_video_thumb/1790000000000000001/pu/img/poster.jpg',
+      duration: '0:42',
+      url: 'https://x.com/jack/status/1790000000000000001/video/1',
+    }]);
+  });
+});
+
+describe('extractArticlePage', () => {
+  it('parses the article body into blocks', async () => {
+    const page = await loadFixture('article.html');
+    const article = await page.evaluate(extractArticlePage, articleStrategy.selectors);
+    await page.close();
+
+    expect(article.title).toBe('Notes on shipping');
+    expect(article.authorName).toBe('Wendy Writer');
+    expect(article.authorHandle).toBe('@writer');
+    expect(article.authorAvatar).toBe('https://pbs.twimg.com/profile_images/444/writer_400x400.jpg');
+    expect(article.date).toBe('2024-05-16T08:00:00.000Z');
+    expect(article.content).toEqual([
+      { type: 'image', url: 'https://pbs.twimg.com/media/GNcover01?format=jpg&name=large', caption: null },
+      {
+        type: 'paragraph',
+        html: 'Shipping is a habit. This is how we <strong>keep it</strong> going, with <a href="https://example.com/guide">our guide</a> and a pinch of <em>luck</em>.',
+      },
+      { type: 'heading', level: 2, html: 'Small batches' },
+      { type: 'paragraph', html: 'Keep every change small enough to review over coffee.' },
+      { type: 'list', ordered: false, items: ['Write it down', 'Ship it <strong>today</strong>'] },
+      { type: 'list', ordered: true, items: ['Plan', 'Build'] },
+      { type: 'heading', level: 3, html: 'Tools' },
+      { type: 'blockquote', html: 'Make it work, make it right, make it fast.' },
+      { type: 'code', language: 'ts', code: 'const answer = 42;\nconsole.log(answer);' },
+      { type: 'image', url: 'https://pbs.twimg.com/media/GNchart02?format=png&name=small', caption: 'Deploys per week' },
+      { type: 'divider' },
+      {
+        type: 'tweet',
+        url: 'https://x.com/KentBeck/status/250733358307500032',
+        authorName: 'Kent',
+        authorHandle: '@kentbeck',
+        text: 'Make the change easy, then make the easy change.',
+      },
+      { type: 'paragraph', html: 'Thanks for reading.' },
+    ]);
+  });
+});
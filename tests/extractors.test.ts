@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { ARTICLE_STRATEGIES, TWEET_STRATEGIES, extractWithFallback, strategyId, type SelectorStrategy } from '../lib/extractors';
+
+const strategies: SelectorStrategy<string>[] = [
+  { name: 'current', version: 3, selectors: 'a' },
+  { name: 'legacy', version: 1, selectors: 'b' },
+];
+
+describe('extractWithFallback', () => {
+  it('stops at the first usable result', async () => {
+    const tried: string[] = [];
+    const outcome = await extractWithFallback(strategies, async selectors => {
+      tried.push(selectors);
+      return `found ${selectors}`;
+    }, () => true);
+
+    expect(tried).toEqual(['a']);
+    expect(outcome.result).toBe('found a');
+    expect(outcome.strategy && strategyId(outcome.strategy)).toBe('current@3');
+  });
+
+  it('falls back until a strategy produces something usable', async () => {
+    const outcome = await extractWithFallback(strategies, async selectors => (selectors === 'b' ? 'content' : ''), Boolean);
+
+    expect(outcome.result).toBe('content');
+    expect(outcome.strategy && strategyId(outcome.strategy)).toBe('legacy@1');
+  });
+
+  it('returns the first result when nothing is usable', async () => {
+    const outcome = await extractWithFallback(strategies, async selectors => `empty ${selectors}`, () => false);
+
+    expect(outcome).toEqual({ result: 'empty a', strategy: null });
+  });
+});
+
+describe('registered strategies', () => {
+  it.each([
+    ['tweet', TWEET_STRATEGIES],
+    ['article', ARTICLE_STRATEGIES],
+  ] as const)('%s strategies have unique IDs', (_kind, registered) => {
+    const ids = registered.map(strategyId);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,18 @@
+import { mkdtempSync, readdirSync, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { writeFileAtomic } from '../lib/files';
+
+describe('writeFileAtomic', () => {
+  it('lets concurrent writers to one path each land a whole file', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-files-'));
+    const filePath = path.join(dir, 'nested', 'watches.json');
+    const bodies = Array.from({ length: 10 }, (_, i) => JSON.stringify({ writer: i, padding: 'x'.repeat(10000) }));
+
+    await Promise.all(bodies.map(body => writeFileAtomic(filePath, body)));
+
+    expect(bodies).toContain(readFileSync(filePath, 'utf8'));
+    expect(readdirSync(path.dirname(filePath))).toEqual(['watches.json']);
+  });
+});
@@ -0,0 +1,52 @@
+import puppeteer, { type Browser } from 'puppeteer';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import type { ThreadEntry } from '../lib/extract';
+import type { TweetData } from '../lib/types';
+
+/**
+ * Launches one Chromium for the enclosing suite and closes it afterwards.
+ * Chromium needs system libraries that not every machine has, so when it
+ * can't start the suite's tests are skipped rather than failed.
+ */
+export function useBrowser(suite: string): () => Browser {
+  let browser: Browser | null = null;
+
+  beforeAll(async () => {
+    browser = await puppeteer.launch({
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+      executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    }).catch((error: Error) => {
+      console.warn(`Skipping ${suite} tests, Chromium failed to launch: ${error.message}`);
+      return null;
+    });
+  });
+
+  beforeEach(context => {
+    if (!browser) context.skip();
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  return () => browser!;
+}
+
+/** A text-only tweet by @jack; pass the fields a test cares about */
+export function tweet(fields: Partial<TweetData> = {}): TweetData {
+  return {
+    authorName: 'jack',
+    authorHandle: '@jack',
+    authorAvatar: null,
+    text: 'Shipping the new build today',
+    date: '2024-05-13T16:20:00.000Z',
+    images: [],
+    ...fields,
+  };
+}
+
+/** A timeline entry by @jack; pass the fields a test cares about */
+export function entry(id: string, fields: Partial<ThreadEntry> = {}): ThreadEntry {
+  return { id, ...tweet({ text: `Tweet ${id}` }), ...fields };
+}
@@ -0,0 +1,218 @@
+import { mkdtempSync, readFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import type { Browser } from 'puppeteer';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CapturedDocument } from '../lib/convert';
+import type { TweetData } from '../lib/types';
+import { useBrowser } from './helpers';
+
+// History and cache dirs are read at import, so each test gets fresh modules
+async function loadModules(env: Record<string, string> = {}) {
+  vi.stubEnv('HISTORY_DIR', mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-history-')));
+  vi.stubEnv('CACHE_DIR', mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-cache-')));
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+  vi.resetModules();
+  return {
+    history: await import('../lib/history'),
+    convert: await import('../lib/convert'),
+  };
+}
+
+function capture(capturedAt: string, text: string): CapturedDocument {
+  const tweet: TweetData = {
+    authorName: 'jack',
+    authorHandle: '@jack',
+    authorAvatar: null,
+    text,
+    date: '2024-05-13T16:20:00.000Z',
+    images: [],
+  };
+  return {
+    id: '1790000000000000001',
+    url: 'https://x.com/jack/status/1790000000000000001',
+    capturedAt,
+    fileId: 'tweet-1790000000000000001',
+    title: `@jack: ${text}`,
+    author: '@jack',
+    authorName: 'jack',
+    subject: 'Tweet by @jack',
+    keywords: ['@jack'],
+    source: { type: 'tweet', tweet },
+    media: { dataUris: { 'https://pbs.twimg.com/media/a.jpg': 'data:image/png;base64,AAAA' }, failed: [] },
+    extractor: null,
+    sourceMethod: 'syndication',
+  };
+}
+
+const url = 'https://x.com/jack/status/1790000000000000001';
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('capture history', () => {
+  it('lists recorded captures oldest first and reads them back with their media', async () => {
+    const { history } = await loadModules();
+
+    await history.recordSnapshot('tweet-1790000000000000001', url, null, capture('2024-05-14T09:00:00.000Z', 'edited'));
+    await history.recordSnapshot('tweet-1790000000000000001', url, null, capture('2024-05-13T16:30:00.000Z', 'original'));
+
+    const versions = await history.listSnapshots('tweet-1790000000000000001', null);
+    expect(versions.map(version => version.id)).toEqual(['20240513T163000000Z', '20240514T090000000Z']);
+    expect(versions[0]).toEqual({
+      id: '20240513T163000000Z',
+      documentId: 'tweet-1790000000000000001',
+      url,
+      capturedAt: '2024-05-13T16:30:00.000Z',
+      status: 'available',
+      error: null,
+      sourceMethod: 'syndication',
+      extractor: null,
+    });
+
+    const snapshot = await history.getSnapshot('tweet-1790000000000000001', '20240513T163000000Z', null);
+    expect(snapshot?.document?.source).toMatchObject({ type: 'tweet', tweet: { text: 'original' } });
+    expect(snapshot?.document?.media.dataUris).toEqual({ 'https://pbs.twimg.com/media/a.jpg': 'data:image/png;base64,AAAA' });
+  });
+
+  it("only shows captures made with a caller's cookies to the same cookies", async () => {
+    const { history } = await loadModules();
+
+    await history.recordSnapshot('tweet-1790000000000000001', url, null, capture('2024-05-13T16:30:00.000Z', 'public'));
+    await history.recordSnapshot('tweet-1790000000000000001', url, 'session-a', capture('2024-05-14T09:00:00.000Z', 'private'));
+
+    expect(await history.listSnapshots('tweet-1790000000000000001', null)).toHaveLength(1);
+    expect(await history.listSnapshots('tweet-1790000000000000001', 'session-b')).toHaveLength(1);
+    expect(await history.listSnapshots('tweet-1790000000000000001', 'session-a')).toHaveLength(2);
+    expect(await history.getSnapshot('tweet-1790000000000000001', '20240514T090000000Z', null)).toBeNull();
+  });
+
+  it('flags content that went missing after it was last seen', async () => {
+    const { history } = await loadModules();
+    const summary = (capturedAt: string, status: 'available' | 'unavailable') => ({
+      id: capturedAt,
+      documentId: 'tweet-1',
+      url,
+      capturedAt,
+      status,
+      error: null,
+      sourceMethod: null,
+      extractor: null,
+    });
+
+    expect(history.unavailableSince([summary('a', 'available'), summary('b', 'unavailable'), summary('c', 'unavailable')])).toBe('b');
+    expect(history.unavailableSince([summary('a', 'unavailable'), summary('b', 'available')])).toBeNull();
+    expect(history.unavailableSince([])).toBeNull();
+  });
+
+  it('rejects document IDs that could leave the history directory', async () => {
+    const { history } = await loadModules();
+
+    await expect(history.listSnapshots('../tweet-1', null)).rejects.toThrow('Invalid document ID');
+  });
+});
+
+describe('prepareDocument history', () => {
+  // Stands in for the syndication endpoint; `deleted` makes it answer like it
+  // does for a removed tweet, `failing` like it does when it's down
+  let server: Server;
+  let baseUrl: string;
+  let deleted = false;
+  let failing = false;
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      if (failing) {
+        response.writeHead(500).end();
+        return;
+      }
+      if (deleted) {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+        id_str: '1790000000000000001',
+        text: 'Before the edit',
+        created_at: '2024-05-13T16:20:00.000Z',
+        user: { name: 'jack', screen_name: 'jack' },
+      }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('records each fresh capture, and the capture that found the tweet gone', async () => {
+    const { history, convert } = await loadModules({ SYNDICATION_BASE_URL: baseUrl });
+
+    deleted = false;
+    await convert.prepareDocument(url, {});
+    // Served from the cache: the same capture, so nothing new is recorded
+    await convert.prepareDocument(url, {});
+
+    deleted = true;
+    await expect(convert.prepareDocument(url, { refresh: true })).rejects.toBeInstanceOf(convert.ContentUnavailableError);
+
+    const versions = await history.listSnapshots('tweet-1790000000000000001', null);
+    expect(versions.map(version => version.status)).toEqual(['available', 'unavailable']);
+    expect(versions[1].error).toMatch(/may be private or deleted/);
+    expect(history.unavailableSince(versions)).toBe(versions[1].capturedAt);
+  });
+
+  describe('through the browser', () => {
+    const browser = useBrowser('browser history');
+
+    afterAll(async () => {
+      failing = false;
+    });
+
+    // Answers every x.com request with a saved page, so the scraper runs offline
+    function servingFixture(real: Browser, name: string): Browser {
+      const html = readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+      return {
+        createBrowserContext: async () => {
+          const context = await real.createBrowserContext();
+          return {
+            newPage: async () => {
+              const page = await context.newPage();
+              await page.setRequestInterception(true);
+              page.on('request', request => (request.url().startsWith('https://x.com/')
+                ? request.respond({ status: 200, contentType: 'text/html', body: html })
+                : request.abort()));
+              return page;
+            },
+            close: () => context.close(),
+          };
+        },
+      } as unknown as Browser;
+    }
+
+    it("records a tweet the caller's session finds gone as unavailable", async () => {
+      const { history, convert } = await loadModules({ SYNDICATION_BASE_URL: baseUrl });
+      // Syndication down: only the browser can tell the tweet is gone
+      failing = true;
+
+      const options = { authToken: 'caller-token' };
+      await expect(convert.prepareDocument(url, options, servingFixture(browser(), 'tweet-unavailable.html')))
+        .rejects.toBeInstanceOf(convert.ContentUnavailableError);
+
+      const versions = await history.listSnapshots('tweet-1790000000000000001', convert.sessionScope(options));
+      expect(versions).toHaveLength(1);
+      expect(versions[0]).toMatchObject({ status: 'unavailable' });
+      expect(versions[0].error).toContain('this page doesn’t exist');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { generatePDF, renderBandTemplate, type PdfMetadata, type Provenance } from '../lib/pdf';
+import { generateArticleHTML } from '../lib/templates';
+import { resolveTheme } from '../lib/themes';
+import type { ArticleData } from '../lib/types';
+import { useBrowser } from './helpers';
+
+const provenance: Provenance = {
+  url: 'https://x.com/ada/status/1790000000000000001',
+  author: '@ada',
+  title: '@ada: A moth <obviously>',
+  capturedAt: '2024-05-16T08:30:15.123Z',
+};
+
+describe('renderBandTemplate', () => {
+  it('fills in provenance and leaves page numbers to Chromium', () => {
+    const html = renderBandTemplate('{author} · {url} · Captured {capturedAt} · Page {page} of {pages}', provenance, resolveTheme());
+
+    expect(html).toContain('@ada · https://x.com/ada/status/1790000000000000001 · Captured 2024-05-16 08:30:15 UTC');
+    expect(html).toContain('Page <span class="pageNumber"></span> of <span class="totalPages"></span>');
+  });
+
+  it('escapes provenance and literal text, and keeps unknown placeholders as text', () => {
+    const html = renderBandTemplate('<b>{title}</b> {unknown}', provenance, resolveTheme());
+
+    expect(html).toContain('&lt;b&gt;@ada: A moth &lt;obviously&gt;&lt;/b&gt; {unknown}');
+  });
+
+  it('styles the band with the theme font, color and side margins', () => {
+    const html = renderBandTemplate('{page}', provenance, resolveTheme({ preset: 'print', margin: '1in' }));
+
+    expect(html).toContain('padding: 0 1in 0 1in');
+    expect(html).toContain('font-family: Georgia, &quot;Times New Roman&quot;, Times, serif');
+    expect(html).toContain('color: #444444');
+  });
+});
+
+describe('header and footer options', () => {
+  it('are on by default and can be replaced or turned off', () => {
+    expect(resolveTheme().page.header).toBe('{author} · {url}');
+    expect(resolveTheme().page.footer).toBe('Captured {capturedAt} · Page {page} of {pages}');
+
+    const custom = resolveTheme({ header: 'Exhibit A · {url}', footer: '' });
+    expect(custom.page.header).toBe('Exhibit A · {url}');
+    expect(custom.page.footer).toBeNull();
+  });
+});
+
+/** Every bookmark title in the outline, depth first */
+function outlineTitles(pdf: PDFDocument): string[] {
+  const titles: string[] = [];
+  const walk = (item: PDFDict | undefined) => {
+    for (let node = item; node; node = node.lookupMaybe(PDFName.of('Next'), PDFDict)) {
+      titles.push(node.lookup(PDFName.of('Title'), PDFString, PDFHexString).decodeText());
+      walk(node.lookupMaybe(PDFName.of('First'), PDFDict));
+    }
+  };
+  walk(pdf.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)?.lookupMaybe(PDFName.of('First'), PDFDict));
+  return titles;
+}
+
+describe('generatePDF metadata and outline', () => {
+  const browser = useBrowser('PDF metadata');
+
+  const metadata: PdfMetadata = {
+    ...provenance,
+    title: 'Notes on the Analytical Engine',
+    authorName: 'Ada Lovelace',
+    subject: 'X article by @ada, captured from https://x.com/i/article/1',
+    keywords: ['@ada', 'article'],
+  };
+
+  const article: ArticleData = {
+    title: 'Notes on the Analytical Engine',
+    authorName: 'Ada Lovelace',
+    authorHandle: '@ada',
+    authorAvatar: null,
+    date: '',
+    content: [
+      { type: 'heading', level: 2, html: 'Note A' },
+      { type: 'paragraph', html: 'The engine weaves algebraic patterns.' },
+      { type: 'heading', level: 3, html: 'On <em>operations</em>' },
+      { type: 'paragraph', html: 'Operations and their objects.' },
+    ],
+  };
+
+  it('fills in the document properties', async () => {
+    const pdf = await PDFDocument.load(await generatePDF(generateArticleHTML(article), browser(), resolveTheme(), metadata));
+
+    expect(pdf.getTitle()).toBe('Notes on the Analytical Engine');
+    expect(pdf.getAuthor()).toBe('Ada Lovelace (@ada)');
+    expect(pdf.getSubject()).toBe('X article by @ada, captured from https://x.com/i/article/1');
+    expect(pdf.getKeywords()).toBe('@ada article');
+    expect(pdf.getCreationDate()?.toISOString()).toBe('2024-05-16T08:30:15.000Z');
+  });
+
+  it('bookmarks the headings and links the contents page to them', async () => {
+    const pdf = await PDFDocument.load(await generatePDF(generateArticleHTML(article, { tableOfContents: true }), browser(), resolveTheme(), metadata));
+
+    expect(outlineTitles(pdf)).toEqual(expect.arrayContaining(['Note A', 'On operations']));
+    // The contents gets its own page in front of the article body
+    expect(pdf.getPageCount()).toBe(2);
+    const annotations = pdf.getPage(0).node.Annots();
+    expect(annotations?.size()).toBe(2);
+  });
+});
@@ -0,0 +1,84 @@
+import { PDFDocument } from 'pdf-lib';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { exportProfile, readProfileExportOptions, validateProfileExportOptions } from '../lib/profile';
+import { scrapeProfileTimeline } from '../lib/scraper';
+import { entry, useBrowser } from './helpers';
+
+// The timeline is stubbed; what's under test is picking, ordering and rendering the posts
+vi.mock('../lib/scraper', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/scraper')>()),
+  scrapeProfileTimeline: vi.fn(),
+}));
+
+vi.mock('../lib/convert', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/convert')>()),
+  withSession: (_options: unknown, _missingAuth: unknown, scrape: (auth: unknown) => Promise<unknown>) => scrape({ authToken: 'stored' }),
+}));
+
+describe('validateProfileExportOptions', () => {
+  it.each([
+    [{}, null],
+    [{ count: 50, since: '2024-05-01', until: '2024-05-31' }, null],
+    [{ count: 0 }, 'Invalid count'],
+    [{ count: 101 }, 'Invalid count'],
+    [{ count: 2.5 }, 'Invalid count'],
+    [{ since: 'last week' }, 'Invalid since'],
+    [{ until: 20240531 }, 'Invalid until'],
+    [{ since: '2024-06-01', until: '2024-05-01' }, 'Invalid range'],
+  ])('checks %j', (body, error) => {
+    const result = validateProfileExportOptions(body);
+    if (error) {
+      expect(result).toContain(error);
+    } else {
+      expect(result).toBeNull();
+    }
+  });
+
+  it('reads the range alongside the usual conversion options', () => {
+    expect(readProfileExportOptions({ count: 10, since: 'nope', replies: 1, hideMetrics: true })).toMatchObject({
+      count: 10,
+      since: undefined,
+      replies: true,
+      reposts: false,
+      hideMetrics: true,
+    });
+  });
+});
+
+describe('exportProfile', () => {
+  const browser = useBrowser('profile PDF');
+
+  beforeEach(() => {
+    vi.mocked(scrapeProfileTimeline).mockReset();
+  });
+
+  it('renders the posts in a range behind a cover page', async () => {
+    vi.mocked(scrapeProfileTimeline).mockResolvedValue([
+      entry('1790000000000000031', { text: 'The engine weaves algebraic patterns.', authorName: 'Ada', authorHandle: '@ada', repostedBy: '@jack' }),
+      entry('1790000000000000001', { text: 'Shipping the new build today' }),
+    ]);
+
+    const output = await exportProfile('jack', { since: '2024-05-01', until: '2024-05-31', reposts: true }, browser());
+    const pdf = await PDFDocument.load(output.pdf);
+
+    // A bare `until` date includes that whole day
+    expect(scrapeProfileTimeline).toHaveBeenCalledWith('jack', { authToken: 'stored' }, browser(), {
+      limit: 100,
+      replies: undefined,
+      reposts: true,
+      since: '2024-05-01T00:00:00.000Z',
+      until: '2024-06-01T00:00:00.000Z',
+    });
+    expect(output).toMatchObject({ handle: 'jack', posts: 2, failedImages: [] });
+    expect(output.fileName).toMatch(/^profile-jack-\d{4}-\d{2}-\d{2}\.pdf$/);
+    expect(pdf.getPageCount()).toBeGreaterThanOrEqual(2);
+    expect(pdf.getTitle()).toBe('Posts by @jack');
+    expect(pdf.getSubject()).toBe('Posts and reposts from May 1, 2024 to May 31, 2024, 2 in all, captured from https://x.com/jack');
+  });
+
+  it('reports an empty timeline as a request problem', async () => {
+    vi.mocked(scrapeProfileTimeline).mockResolvedValue([]);
+
+    await expect(exportProfile('jack', { count: 5 })).rejects.toThrow('No posts by @jack were found.');
+  });
+});
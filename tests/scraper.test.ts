@@ -0,0 +1,64 @@
+import type { Browser, Page } from 'puppeteer';
+import { describe, expect, it, vi } from 'vitest';
+import { extractTimelineTweets, type ThreadEntry } from '../lib/extract';
+import { scrapeProfileTimeline } from '../lib/scraper';
+import { entry } from './helpers';
+
+// The page is faked; what's under test is how the scroll loop merges and limits entries
+vi.mock('../lib/browser', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/browser')>()),
+  setupPage: vi.fn(async () => {}),
+}));
+
+vi.mock('../lib/session', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/session')>()),
+  assertSession: vi.fn(async () => {}),
+}));
+
+// Serves one batch of visible tweets per scroll step, the way a virtualized timeline does
+function fakeTimeline(rounds: ThreadEntry[][]): Browser {
+  let round = 0;
+  const page = {
+    goto: async () => null,
+    waitForSelector: async () => null,
+    evaluateHandle: async () => ({}),
+    evaluate: async (fn: unknown) => {
+      if (fn !== extractTimelineTweets) return undefined;
+      return rounds[Math.min(round++, rounds.length - 1)];
+    },
+  } as unknown as Page;
+
+  return {
+    createBrowserContext: async () => ({
+      newPage: async () => page,
+      close: async () => {},
+    }),
+  } as unknown as Browser;
+}
+
+describe('scrapeProfileTimeline', () => {
+  it('keeps scrolling past a pinned tweet until the limit is met', async () => {
+    const browser = fakeTimeline([
+      [entry('20', { date: '2006-03-21T20:50:14.000Z', pinned: true }), entry('1790000000000000030', { date: '2024-05-13T18:00:00.000Z' })],
+      [entry('1790000000000000001', { date: '2024-05-13T16:20:00.000Z' })],
+    ]);
+
+    const tweets = await scrapeProfileTimeline('jack', { authToken: 'token' }, browser, { limit: 2 });
+
+    // The old pinned tweet is sorted below both and falls outside the limit
+    expect(tweets.map(tweet => tweet.id)).toEqual(['1790000000000000030', '1790000000000000001']);
+    expect(tweets[0]).not.toHaveProperty('pinned');
+  });
+  it('scrolls past skipped tweets to reach the range', async () => {
+    const browser = fakeTimeline([
+      [entry('1790000000000000040', { date: '2024-05-20T09:00:00.000Z' })],
+      [entry('1790000000000000039', { date: '2024-05-19T09:00:00.000Z' })],
+      [entry('1790000000000000038', { date: '2024-05-18T09:00:00.000Z' }), entry('1790000000000000037', { date: '2024-05-17T09:00:00.000Z', repostedBy: '@jack', authorHandle: '@ada' })],
+      [entry('1790000000000000020', { date: '2024-05-09T09:00:00.000Z' }), entry('1790000000000000019', { date: '2024-05-08T09:00:00.000Z' })],
+    ]);
+
+    const tweets = await scrapeProfileTimeline('jack', { authToken: 'token' }, browser, { limit: 5, until: '2024-05-10T00:00:00.000Z' });
+
+    expect(tweets.map(tweet => tweet.id)).toEqual(['1790000000000000020', '1790000000000000019']);
+  }, 20000);
+});
@@ -0,0 +1,101 @@
+import { existsSync, readFileSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fetchSyndicatedTweet } from '../lib/syndication';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'syndication');
+
+// Stands in for the syndication endpoint: serves `<id>.json` fixtures and 404s
+// unknown IDs, the way the real endpoint answers for deleted tweets
+let server: Server;
+let baseUrl: string;
+const requests: URL[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    requests.push(url);
+
+    const fixture = path.join(FIXTURES_DIR, `${url.searchParams.get('id')}.json`);
+    if (url.pathname === '/tweet-result' && url.searchParams.get('id') === 'broken') {
+      response.writeHead(500).end();
+    } else if (url.pathname === '/tweet-result' && existsSync(fixture)) {
+      response.writeHead(200, { 'Content-Type': 'application/json' }).end(readFileSync(fixture));
+    } else {
+      response.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('fetchSyndicatedTweet', () => {
+  it('maps the embed payload onto tweet data', async () => {
+    const tweet = await fetchSyndicatedTweet('1790000000000000001', baseUrl);
+
+    const request = requests[requests.length - 1];
+    expect(request.pathname).toBe('/tweet-result');
+    expect(request.searchParams.get('token')).toMatch(/^[a-z0-9]+$/);
+
+    expect(tweet).toMatchObject({
+      authorName: 'jack',
+      authorHandle: '@jack',
+      authorAvatar: 'https://pbs.twimg.com/profile_images/1115644092329758721/AFjOr-K8_400x400.jpg',
+      date: '2024-05-13T16:20:00.000Z',
+      images: ['https://pbs.twimg.com/media/GNabc123XYZ.jpg'],
+      videos: [
+        {
+          kind: 'video',
+          posterUrl: 'https://pbs.twimg.com/ext_tw_video_thumb/1790000000000000099/pu/img/poster.jpg',
+          duration: '0:42',
+          url: 'https://x.com/jack/status/1790000000000000001/video/1',
+        },
+      ],
+      metrics: { replies: 12, reposts: null, likes: 1234, bookmarks: null, views: null },
+      replyingTo: ['@grace'],
+    });
+    expect(tweet!.capturedAt).toBeTruthy();
+  });
+
+  it('rebuilds segments from code point entity indices and drops the media link', async () => {
+    const tweet = await fetchSyndicatedTweet('1790000000000000001', baseUrl);
+
+    expect(tweet!.segments).toEqual([
+      { type: 'text', text: 'Ship it 🚀 & tell ' },
+      { type: 'mention', text: '@dorsey', url: 'https://x.com/dorsey' },
+      { type: 'text', text: ' ' },
+      { type: 'hashtag', text: '#buildinpublic', url: 'https://x.com/hashtag/buildinpublic' },
+      { type: 'text', text: ' ' },
+      { type: 'cashtag', text: '$TSLA', url: 'https://x.com/search?q=%24TSLA' },
+      { type: 'text', text: ' ' },
+      { type: 'link', text: 'https://example.com/release-notes/2024', url: 'https://example.com/release-notes/2024' },
+    ]);
+    expect(tweet!.text).toBe('Ship it 🚀 & tell @dorsey #buildinpublic $TSLA https://example.com/release-notes/2024');
+  });
+
+  it('includes the quoted tweet and the parent', async () => {
+    const tweet = await fetchSyndicatedTweet('1790000000000000001', baseUrl);
+
+    expect(tweet!.quotedTweet).toMatchObject({
+      authorHandle: '@kentbeck',
+      text: 'Small batches win.',
+      videos: [{ kind: 'gif', duration: null, url: 'https://x.com/kentbeck/status/1700000000000000000/video/1' }],
+    });
+    expect(tweet!.parentTweet).toMatchObject({ authorHandle: '@grace', text: 'Anyone shipping today?' });
+  });
+
+  it('returns null for unavailable tweets', async () => {
+    await expect(fetchSyndicatedTweet('1790000000000000404', baseUrl)).resolves.toBeNull();
+    await expect(fetchSyndicatedTweet('1790000000000000999', baseUrl)).resolves.toBeNull();
+  });
+
+  it('throws when the endpoint fails', async () => {
+    await expect(fetchSyndicatedTweet('broken', baseUrl)).rejects.toThrow('status 500');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { generateArticleHTML, generateProfileHTML, generateTweetHTML } from '../lib/templates';
+import type { ArticleData, TweetData } from '../lib/types';
+
+const tweet: TweetData = {
+  authorName: 'Ada',
+  authorHandle: '@ada',
+  authorAvatar: 'https://pbs.twimg.com/profile_images/111/ada_400x400.jpg',
+  text: 'A moth, obviously. <3 & more at https://example.com #bugs',
+  segments: [
+    { type: 'text', text: 'A moth, obviously. <3 & more at ' },
+    { type: 'link', text: 'https://example.com', url: 'https://example.com' },
+    { type: 'text', text: ' ' },
+    { type: 'hashtag', text: '#bugs', url: 'https://x.com/hashtag/bugs' },
+  ],
+  date: '2024-05-15T10:05:00.000Z',
+  images: ['https://pbs.twimg.com/media/GNmoth001?format=jpg&name=small'],
+  videos: [
+    {
+      kind: 'video',
+      posterUrl: 'https://pbs.twimg.com/ext_tw_video_thumb/1/pu/img/poster.jpg',
+      duration: '0:42',
+      url: 'https://x.com/ada/status/1790000000000000011/video/1',
+    },
+  ],
+  metrics: { replies: 3, reposts: 1200, likes: 45600, bookmarks: null, views: 2500000 },
+  capturedAt: '2024-05-16T00:00:00.000Z',
+  quotedTweet: {
+    authorName: 'Hopper Archive',
+    authorHandle: '@hopperarchive',
+    authorAvatar: null,
+    text: 'First actual case of bug being found.',
+    date: '1947-09-09T15:45:00.000Z',
+    images: [],
+  },
+  parentTweet: {
+    authorName: 'Grace',
+    authorHandle: '@grace',
+    authorAvatar: null,
+    text: 'What should we call the bug we found?',
+    date: '2024-05-15T10:00:00.000Z',
+    images: [],
+  },
+  replyingTo: ['@grace'],
+};
+
+const article: ArticleData = {
+  title: 'Notes on <shipping>',
+  authorName: 'Wendy Writer',
+  authorHandle: '@writer',
+  authorAvatar: 'https://pbs.twimg.com/profile_images/444/writer_400x400.jpg',
+  date: '2024-05-16T08:00:00.000Z',
+  content: [
+    { type: 'image', url: 'https://pbs.twimg.com/media/GNcover01?format=jpg&name=large', caption: null },
+    { type: 'paragraph', html: 'Shipping is a <strong>habit</strong>, see <a href="https://example.com/guide">our guide</a>.' },
+    { type: 'heading', level: 2, html: 'Small batches' },
+    { type: 'list', ordered: false, items: ['Write it down', 'Ship it <em>today</em>'] },
+    { type: 'list', ordered: true, items: ['Plan', 'Build'] },
+    { type: 'heading', level: 3, html: 'Tools' },
+    { type: 'blockquote', html: 'Make it work, make it right, make it fast.' },
+    { type: 'code', language: 'ts', code: 'if (a < b && c) {\n  ship();\n}' },
+    { type: 'image', url: 'https://pbs.twimg.com/media/GNchart02?format=png&name=small', caption: 'Deploys per week' },
+    { type: 'divider' },
+    {
+      type: 'tweet',
+      url: 'https://x.com/KentBeck/status/250733358307500032',
+      authorName: 'Kent',
+      authorHandle: '@kentbeck',
+      text: 'Make the change easy, then make the easy change.',
+    },
+  ],
+};
+
+describe('generateTweetHTML', () => {
+  it('renders a reply with media, a quote and metrics', () => {
+    expect(generateTweetHTML(tweet)).toMatchSnapshot();
+  });
+
+  it('leaves out metrics when asked to', () => {
+    const html = generateTweetHTML(tweet, { hideMetrics: true });
+    expect(html).not.toContain('class="tweet-metrics"');
+    expect(html).toMatchSnapshot();
+  });
+
+  it('escapes tweet text', () => {
+    const html = generateTweetHTML({ ...tweet, segments: undefined, parentTweet: null, quotedTweet: null });
+    expect(html).toContain('&lt;3 &amp; more');
+    expect(html).not.toContain('<3 & more');
+  });
+});
+
+describe('generateArticleHTML', () => {
+  it('renders every block type', () => {
+    expect(generateArticleHTML(article)).toMatchSnapshot();
+  });
+
+  it('escapes code blocks and the title', () => {
+    const html = generateArticleHTML(article);
+    expect(html).toContain('if (a &lt; b &amp;&amp; c)');
+    expect(html).toContain('Notes on &lt;shipping&gt;');
+  });
+});
+
+describe('generateProfileHTML', () => {
+  it('puts the account on a cover page and marks reposts', () => {
+    const html = generateProfileHTML(
+      { name: 'Ada', handle: '@ada', avatar: tweet.authorAvatar, description: 'Latest posts', capturedAt: '2024-05-16T00:00:00.000Z' },
+      [
+        { url: 'https://x.com/ada/status/1790000000000000011', tweet },
+        { url: 'https://x.com/grace/status/1790000000000000012', tweet: { ...tweet, authorHandle: '@grace', repostedBy: '@ada' } },
+      ],
+    );
+
+    expect(html).toContain('<h1 class="profile-name">Ada</h1>');
+    expect(html).toContain('Captured 2024-05-16 00:00:00 UTC');
+    expect(html).toContain('<div class="reposted-by">Reposted by @ada</div>');
+    expect(html.match(/class="timeline-post"/g)).toHaveLength(2);
+    expect(html.indexOf('status/1790000000000000011')).toBeLessThan(html.indexOf('status/1790000000000000012'));
+  });
+});
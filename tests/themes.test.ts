@@ -0,0 +1,183 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, type PDFRawStream } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import { generatePDF } from '../lib/pdf';
+import { generateArticleHTML, generateTweetHTML } from '../lib/templates';
+import { readThemeOptions, resolveTheme, themeStyles, validateThemeOptions } from '../lib/themes';
+import type { ArticleData, TweetData } from '../lib/types';
+import { useBrowser } from './helpers';
+
+const tweet: TweetData = {
+  authorName: 'Ada',
+  authorHandle: '@ada',
+  authorAvatar: null,
+  text: 'Themes!',
+  date: '2024-05-15T10:05:00.000Z',
+  images: ['https://pbs.twimg.com/media/GNmoth001?format=jpg&name=small'],
+};
+
+const article: ArticleData = {
+  title: 'Notes',
+  authorName: 'Ada',
+  authorHandle: '@ada',
+  authorAvatar: null,
+  date: '',
+  content: [{ type: 'paragraph', html: 'Body' }],
+};
+
+describe('validateThemeOptions', () => {
+  it('accepts presets, named and custom page sizes, and margins', () => {
+    expect(validateThemeOptions({})).toBeNull();
+    expect(validateThemeOptions({ theme: 'dark', pageSize: 'Letter', margin: '0.5in' })).toBeNull();
+    expect(validateThemeOptions({
+      pageSize: { width: '148mm', height: '210mm' },
+      margin: { top: '10mm', right: '8mm', bottom: '10mm', left: '8mm' },
+      fontFamily: '"IBM Plex Serif", serif',
+      fontUrl: 'https://fonts.googleapis.com/css2?family=IBM+Plex+Serif',
+    })).toBeNull();
+  });
+
+  it('rejects unknown presets and malformed layout values', () => {
+    expect(validateThemeOptions({ theme: 'neon' })).toMatch(/Supported themes: default, dark, print, compact/);
+    expect(validateThemeOptions({ pageSize: 'B5' })).toMatch(/Invalid pageSize/);
+    expect(validateThemeOptions({ pageSize: { width: '10', height: '20cm' } })).toMatch(/Invalid pageSize/);
+    expect(validateThemeOptions({ margin: { top: '1in' } })).toMatch(/Invalid margin/);
+    expect(validateThemeOptions({ fontFamily: 'x; } body { display: none' })).toMatch(/Invalid fontFamily/);
+    expect(validateThemeOptions({ fontUrl: 'http://example.com/font.css' })).toMatch(/Invalid fontUrl/);
+    expect(validateThemeOptions({ footer: 'x'.repeat(201) })).toMatch(/Invalid footer/);
+  });
+});
+
+describe('resolveTheme', () => {
+  it('uses the default preset when nothing is chosen', () => {
+    const theme = resolveTheme();
+    expect(theme.preset).toBe('default');
+    expect(theme.page).toMatchObject({ size: 'A4', margin: { top: '20px', right: '20px', bottom: '20px', left: '20px' } });
+    expect(theme.brand).toBeNull();
+  });
+
+  it('applies request overrides on top of the preset', () => {
+    const theme = resolveTheme(readThemeOptions({ theme: 'print', pageSize: 'Letter', margin: '1in', fontFamily: 'Inter, sans-serif' }));
+    expect(theme.preset).toBe('print');
+    expect(theme.roundedImages).toBe(false);
+    expect(theme.fontFamily).toBe('Inter, sans-serif');
+    expect(theme.page).toMatchObject({ size: 'Letter', margin: { top: '1in', right: '1in', bottom: '1in', left: '1in' } });
+  });
+
+  it('embeds the logo for the brand header', () => {
+    const theme = resolveTheme({ brand: true });
+    expect(theme.brand?.name).toBe('Merkle Labs');
+    expect(theme.brand?.logo).toMatch(/^data:image\/png;base64,/);
+  });
+});
+
+describe('themed templates', () => {
+  it('paints the page margins with the theme background', () => {
+    const css = themeStyles(resolveTheme({ preset: 'dark' }));
+    expect(css).toContain('--background: #000000;');
+    expect(css).toContain('@page { background: #000000; }');
+  });
+
+  it('squares off images in the print theme only', () => {
+    expect(generateTweetHTML(tweet, { theme: resolveTheme({ preset: 'print' }) })).toContain('.tweet-image, .article-image');
+    expect(generateTweetHTML(tweet)).not.toContain('.tweet-image, .article-image');
+  });
+
+  it('links a custom font stylesheet', () => {
+    const html = generateArticleHTML(article, { theme: resolveTheme({ fontUrl: 'https://fonts.example.com/inter.css', fontFamily: 'Inter' }) });
+    expect(html).toContain('<link rel="stylesheet" href="https://fonts.example.com/inter.css">');
+    expect(html).toContain('--font: Inter;');
+  });
+
+  it('adds the brand header and footer when asked', () => {
+    const html = generateArticleHTML(article, { theme: resolveTheme({ brand: true }) });
+    expect(html).toContain('<div class="brand-header">');
+    expect(html).toContain('Captured with Tweets to PDF · Merkle Labs');
+    expect(generateArticleHTML(article)).not.toContain('brand-header');
+  });
+});
+
+// Maps glyph IDs to text using a font's ToUnicode CMap
+function readCMap(cmap: string): Map<number, string> {
+  const glyphs = new Map<number, string>();
+  const unicode = (hex: string) => String.fromCharCode(...(hex.match(/.{4}/g) || []).map(unit => parseInt(unit, 16)));
+  let section = '';
+  for (const line of cmap.split('\n')) {
+    section = /begin(bfchar|bfrange)/.exec(line)?.[1] || (/endbf/.test(line) ? '' : section);
+    const hex = (line.match(/<[0-9A-Fa-f]+>/g) || []).map(value => value.slice(1, -1));
+    if (section === 'bfchar' && hex.length === 2) {
+      glyphs.set(parseInt(hex[0], 16), unicode(hex[1]));
+    } else if (section === 'bfrange' && hex.length === 3) {
+      const first = parseInt(hex[0], 16);
+      for (let glyph = first; glyph <= parseInt(hex[1], 16); glyph++) {
+        glyphs.set(glyph, String.fromCharCode(parseInt(hex[2], 16) + glyph - first));
+      }
+    }
+  }
+  return glyphs;
+}
+
+// Reads back the text Chromium drew on a page, which it writes as glyph IDs
+function pageText(pdf: PDFDocument, index: number): string {
+  const page = pdf.getPage(index).node;
+  const fonts = page.Resources()!.lookup(PDFName.of('Font'), PDFDict);
+  const decode = (stream: PDFRawStream) => Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1');
+
+  const cmaps = new Map<string, Map<number, string>>();
+  for (const [name, ref] of fonts.entries()) {
+    const font = pdf.context.lookup(ref, PDFDict);
+    cmaps.set(name.asString(), readCMap(decode(font.lookup(PDFName.of('ToUnicode')) as PDFRawStream)));
+  }
+
+  const contents = page.Contents()!;
+  const streams = contents instanceof PDFArray ? contents.asArray().map(ref => pdf.context.lookup(ref) as PDFRawStream) : [contents as PDFRawStream];
+  let glyphs = new Map<number, string>();
+  let text = '';
+  for (const stream of streams) {
+    const operators = /(\/\w+) [\d.]+ Tf|<([0-9A-Fa-f]+)> Tj/g;
+    const ops = decode(stream);
+    let match: RegExpExecArray | null;
+    while ((match = operators.exec(ops))) {
+      if (match[1]) {
+        glyphs = cmaps.get(match[1]) || new Map();
+      } else {
+        text += (match[2].match(/.{4}/g) || []).map(glyph => glyphs.get(parseInt(glyph, 16)) || '').join('');
+      }
+    }
+  }
+  return text;
+}
+
+describe('generatePDF page layout', () => {
+  const browser = useBrowser('PDF layout');
+
+  it('renders named and custom page sizes', async () => {
+    const html = generateArticleHTML(article);
+
+    const letter = await PDFDocument.load(await generatePDF(html, browser(), resolveTheme({ pageSize: 'Letter' })));
+    expect(letter.getPage(0).getSize()).toEqual({ width: 612, height: 792 });
+
+    const custom = await PDFDocument.load(await generatePDF(html, browser(), resolveTheme({ pageSize: { width: '4in', height: '6in' } })));
+    expect(custom.getPage(0).getSize()).toEqual({ width: 288, height: 432 });
+  });
+  it('prints the running header and footer when given metadata', async () => {
+    const metadata = {
+      url: 'https://x.com/i/article/1',
+      author: '@ada',
+      authorName: 'Ada',
+      title: 'Notes',
+      subject: 'An article by @ada',
+      keywords: ['@ada'],
+      capturedAt: '2024-05-16T08:30:00.000Z',
+    };
+    const html = generateArticleHTML(article);
+
+    const pdf = await PDFDocument.load(await generatePDF(html, browser(), resolveTheme({ margin: '10px' }), metadata));
+    expect(pdf.getPageCount()).toBe(1);
+    const text = pageText(pdf, 0);
+    expect(text).toContain('@ada · https://x.com/i/article/1');
+    expect(text).toContain('Page 1 of 1');
+
+    const plain = await PDFDocument.load(await generatePDF(html, browser(), resolveTheme({ margin: '10px' })));
+    expect(pageText(plain, 0)).not.toContain('https://x.com/i/article/1');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { collectionUrl, extractArticleId, extractProfileHandle, extractTweetId, isArticleUrl, isValidTwitterUrl, parseCollectionUrl } from '../lib/urls';
+
+describe('isValidTwitterUrl', () => {
+  it.each([
+    'https://x.com/jack/status/20',
+    'https://twitter.com/jack/status/20',
+    'https://www.x.com/jack/status/20?s=46&t=abc',
+    'https://www.twitter.com/jack/status/20/photo/1',
+    'https://x.com/i/article/1790000000000000000',
+  ])('accepts %s', url => {
+    expect(isValidTwitterUrl(url)).toBe(true);
+  });
+
+  it.each([
+    '',
+    'not a url',
+    'https://x.com/jack',
+    'https://x.com/jack/likes',
+    'https://x.com/i/bookmarks',
+    'https://mobile.x.com/jack/status/20',
+    'https://example.com/jack/status/20',
+    'https://x.com.evil.example/jack/status/20',
+  ])('rejects %j', url => {
+    expect(isValidTwitterUrl(url)).toBe(false);
+  });
+});
+
+describe('URL helpers', () => {
+  it('extracts tweet and article IDs', () => {
+    expect(extractTweetId('https://x.com/jack/status/20?s=20')).toBe('20');
+    expect(extractTweetId('https://x.com/i/article/99')).toBeNull();
+    expect(extractArticleId('https://x.com/i/article/99')).toBe('99');
+    expect(isArticleUrl('https://x.com/i/article/99')).toBe(true);
+    expect(isArticleUrl('https://x.com/jack/status/20')).toBe(false);
+  });
+});
+
+describe('extractProfileHandle', () => {
+  it.each([
+    ['jack', 'jack'],
+    ['@jack', 'jack'],
+    [' @Jack_Dorsey ', 'Jack_Dorsey'],
+    ['https://x.com/jack', 'jack'],
+    ['https://twitter.com/jack/', 'jack'],
+  ])('reads %j as %j', (value, handle) => {
+    expect(extractProfileHandle(value)).toBe(handle);
+  });
+
+  it.each([
+    '',
+    '@',
+    'jack dorsey',
+    'a_handle_far_too_long',
+    'home',
+    'https://x.com/i',
+    'https://x.com/jack/status/20',
+    'https://example.com/jack',
+  ])('rejects %j', value => {
+    expect(extractProfileHandle(value)).toBeNull();
+  });
+});
+
+describe('parseCollectionUrl', () => {
+  it.each([
+    ['https://x.com/i/bookmarks', { type: 'bookmarks' }],
+    ['https://twitter.com/jack/likes/', { type: 'likes', handle: 'jack' }],
+    ['https://x.com/i/lists/1234567890', { type: 'list', listId: '1234567890' }],
+  ])('reads %j', (url, collection) => {
+    expect(parseCollectionUrl(url)).toEqual(collection);
+    expect(collectionUrl(parseCollectionUrl(url)!)).toBe(url.replace('twitter.com', 'x.com').replace(/\/$/, ''));
+  });
+
+  it.each([
+    'https://x.com/jack',
+    'https://x.com/home/likes',
+    'https://x.com/i/lists/abc',
+    'https://x.com/jack/status/20',
+    'https://example.com/i/bookmarks',
+    'bookmarks',
+  ])('rejects %j', url => {
+    expect(parseCollectionUrl(url)).toBeNull();
+  });
+});
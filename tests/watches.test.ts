@@ -0,0 +1,114 @@
+import { existsSync, mkdtempSync, readFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The timeline and the conversion are stubbed; what's under test is the
+// bookkeeping of what has been archived
+const timeline = vi.hoisted(() => ({ entries: [] as { id: string }[], failing: new Set<string>() }));
+
+vi.mock('../lib/browser', () => ({
+  withBrowser: (fn: (browser: unknown) => Promise<unknown>) => fn({}),
+}));
+
+vi.mock('../lib/scraper', () => ({
+  scrapeProfileTimeline: vi.fn(async () => timeline.entries),
+}));
+
+vi.mock('../lib/convert', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/convert')>()),
+  withSession: (_options: unknown, _missingAuth: unknown, scrape: (auth: unknown) => Promise<unknown>) => scrape({ authToken: 'stored' }),
+  prepareDocument: vi.fn(async (url: string) => {
+    const id = url.split('/').pop()!;
+    if (timeline.failing.has(id)) throw new Error('Navigation timeout');
+    return { fileId: `tweet-${id}`, html: `<p>${id}</p>` };
+  }),
+}));
+
+vi.mock('../lib/formats', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/formats')>()),
+  renderOutput: vi.fn(async (doc: { fileId: string; html: string }) => ({
+    body: Buffer.from(doc.html),
+    contentType: 'application/pdf',
+    fileName: `${doc.fileId}.pdf`,
+  })),
+}));
+
+let dir: string;
+
+async function loadWatches() {
+  vi.stubEnv('WATCH_DIR', dir);
+  vi.resetModules();
+  return import('../lib/watches');
+}
+
+const entries = (...ids: string[]) => ids.map(id => ({ id }));
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), 'tweettopdf-watches-'));
+  timeline.entries = [];
+  timeline.failing.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('watches', () => {
+  it('adds, updates and removes watches by handle', async () => {
+    const watches = await loadWatches();
+
+    expect((await watches.saveWatch({ handle: 'jack' })).created).toBe(true);
+    const { watch, created } = await watches.saveWatch({ handle: 'Jack', intervalMinutes: 1, format: 'markdown' });
+
+    expect(created).toBe(false);
+    expect(watch).toMatchObject({ handle: 'jack', intervalMinutes: watches.MIN_WATCH_INTERVAL_MINUTES, format: 'markdown' });
+    expect(await watches.listWatches()).toHaveLength(1);
+
+    expect(await watches.removeWatch('JACK')).toBe(true);
+    expect(await watches.listWatches()).toEqual([]);
+  });
+
+  it('archives only tweets it has not archived before, oldest first', async () => {
+    const watches = await loadWatches();
+    await watches.saveWatch({ handle: 'jack' });
+
+    // Timelines come newest first
+    timeline.entries = entries('102', '101');
+    const first = await watches.runWatch('jack');
+    expect(first).toMatchObject({ status: 'ok', found: 2, archived: ['jack/tweet-101.pdf', 'jack/tweet-102.pdf'] });
+    expect(readFileSync(path.join(dir, 'archive', 'jack', 'tweet-101.pdf'), 'utf8')).toBe('<p>101</p>');
+
+    timeline.entries = entries('103', '102', '101');
+    const second = await watches.runWatch('jack');
+    expect(second).toMatchObject({ status: 'ok', found: 1, archived: ['jack/tweet-103.pdf'] });
+
+    const [watch] = await watches.listWatches();
+    expect(watch.capturedCount).toBe(3);
+    expect(watch.lastRunAt).toBe(second.startedAt);
+    expect((await watches.listRuns('jack')).map(run => run.id)).toEqual([second.id, first.id]);
+  });
+
+  it('logs failed captures and retries them on the next run', async () => {
+    const watches = await loadWatches();
+    await watches.saveWatch({ handle: 'jack' });
+
+    timeline.entries = entries('102', '101');
+    timeline.failing.add('102');
+    const failed = await watches.runWatch('jack');
+    expect(failed.status).toBe('partial');
+    expect(failed.failures).toEqual([{ url: 'https://x.com/jack/status/102', error: 'Navigation timeout' }]);
+    expect(existsSync(path.join(dir, 'archive', 'jack', 'tweet-102.pdf'))).toBe(false);
+
+    timeline.failing.clear();
+    expect(await watches.runWatch('jack')).toMatchObject({ status: 'ok', found: 1, archived: ['jack/tweet-102.pdf'] });
+  });
+
+  it('refuses to run a handle that is not watched', async () => {
+    const watches = await loadWatches();
+
+    await expect(watches.runWatch('nobody')).rejects.toThrow('@nobody is not being watched.');
+  });
+});
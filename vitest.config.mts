@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Rendered dates go through toLocaleString, so pin the zone for stable snapshots
+    env: { TZ: 'UTC' },
+    testTimeout: 30000,
+    hookTimeout: 60000,
+  },
+});